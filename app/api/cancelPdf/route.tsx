@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestCancel } from '@/lib/progressStore';
+import { cancelJob } from '@/lib/jobQueue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST: Cancels a queued or running PDF export
+export async function POST(request: NextRequest) {
+  const jobId = new URL(request.url).searchParams.get('jobId');
+  if (!jobId) {
+    return NextResponse.json({ success: false, error: 'Missing jobId' }, { status: 400 });
+  }
+
+  // Jobs of the synchronous /api/generatePdf route are not in the queue
+  if (!cancelJob(jobId)) {
+    requestCancel(jobId);
+  }
+
+  return NextResponse.json({ success: true });
+}
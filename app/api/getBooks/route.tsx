@@ -1,19 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import sqlite from 'better-sqlite3';
-import path from 'path';
-import fs from 'fs';
 import { getResolvedPaths } from '@/lib/config';
-
-function findFolderContainingFile(rootDir: string, filename: string): string | null {
-    const subdirs = fs.readdirSync(rootDir);
-    for (const subdir of subdirs) {
-        const subPath = path.join(rootDir, subdir, filename);
-        if (fs.existsSync(subPath)) {
-            return subdir;
-        }
-    }
-    return null;
-}
+import { getCourseImageFolder, readCourseImage, toImageDataUrl } from '@/lib/courseImages';
 
 //TODO: actually fetch language from ZILPCOURSEDE ZLANGUAGECODE
 export async function GET(request: Request) {
@@ -65,16 +53,7 @@ export async function GET(request: Request) {
             value["ZLANG"] = (row["ZLANG"] as string)?.toString() || '';
 
             // Extract folder from ZCOURSECONFIGFILEREFERENCE
-            const configRefRaw = row["ZCOURSECONFIGFILEREFERENCE"];
-            let folder = '';
-            if (configRefRaw) {
-                try {
-                    const adjusted = (parseInt((configRefRaw as string).toString(), 16) - 1).toString(16).toUpperCase();
-                    folder = adjusted.padStart((configRefRaw as string).length, '0');
-                } catch {
-                    folder = (configRefRaw as string).toString();
-                }
-            }
+            const folder = getCourseImageFolder(row["ZCOURSECONFIGFILEREFERENCE"]);
 
             // Process image fields
             IMAGE_COLS.forEach(col => {
@@ -94,25 +73,7 @@ export async function GET(request: Request) {
                     filename = rawFilename.slice(0, lastDotIndex) + '@2x' + rawFilename.slice(lastDotIndex);
                 }
 
-                const fullPath = path.join(IMG_PATH, folder, filename);
-                try {
-                    const imageBuffer = fs.readFileSync(fullPath);
-                    const base64 = `data:image/${path.extname(filename).slice(1)};base64,${imageBuffer.toString('base64')}`;
-                    value[col] = base64;
-                } catch {
-                    try {
-                        const searchResult = findFolderContainingFile(IMG_PATH, filename);
-                        if (searchResult) {
-                            const newFullPath = path.join(IMG_PATH, searchResult, filename);
-                            const imageBuffer = fs.readFileSync(newFullPath);
-                            const base64 = `data:image/${path.extname(filename).slice(1)};base64,${imageBuffer.toString('base64')}`;
-                            value[col] = base64;
-                        }
-                    } catch {
-                        console.warn(`Missing image at ${fullPath}`);
-                        value[col] = '';
-                    }
-                }
+                value[col] = toImageDataUrl(readCourseImage(IMG_PATH, folder, filename));
             });
 
             resultList.push(value);
@@ -32,7 +32,8 @@ export async function GET(request: NextRequest) {
         chap."Z_PK"              AS chapterId,
         chap."ZTITLE"            AS chapterTitle,
         chap."ZPRODUCTREFERENCE" AS chapterRef,
-        issue."ZISSUEID"         AS issueId
+        issue."ZISSUEID"         AS issueId,
+        issue."ZISSUEPRODUCT"    AS issueProduct
       FROM ZILPCOURSEDEF cd
       JOIN ZILPISSUEDEF issue
         ON issue."ZCOURSE" = cd."Z_PK"
@@ -51,6 +52,7 @@ export async function GET(request: NextRequest) {
       title: row.chapterTitle as string,
       ref: row.chapterRef as string,        // ZPRODUCTREFERENCE (e.g. "P5cec")
       issueId: (row.issueId ?? null) as string | null, // e.g. "PPL020A01"
+      issueProduct: row.issueProduct as number,   // matches Book.Issue / ZILPTOPIC.ZISSUE
     }));
 
     db.close();
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import { getJob, getJobResultPath } from '@/lib/jobQueue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET: Downloads the PDF (or ZIP) of a finished export job
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+  }
+
+  const resultPath = getJobResultPath(job);
+  if (job.status !== 'done' || !fs.existsSync(resultPath)) {
+    return NextResponse.json(
+      { success: false, error: `Job is ${job.status}` },
+      { status: 409 }
+    );
+  }
+
+  const result = fs.readFileSync(resultPath);
+  const fileName = job.resultFileName ?? 'book.pdf';
+
+  return new Response(new Uint8Array(result), {
+    status: 200,
+    headers: {
+      'Content-Type': job.resultContentType ?? 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    },
+  });
+}
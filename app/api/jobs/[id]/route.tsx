@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '@/lib/jobQueue';
+import { getProgressEvent } from '@/lib/progressStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET: Returns the status of an export job
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    job: {
+      id: job.id,
+      status: job.status,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      error: job.error,
+      resultFileName: job.resultFileName ?? null,
+      // Only known while the server runs the job, a restart starts over
+      progress: job.status === 'done' ? 100 : getProgressEvent(job.id)?.percent ?? 0,
+    },
+  });
+}
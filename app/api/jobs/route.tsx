@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createJob } from '@/lib/jobQueue';
+import { parseExportOptions, type Book } from '@/lib/pdfExport';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST: Queues a PDF export
+// Body: { books: Book[], options: Record<string, string> } with the same options as /api/generatePdf
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const books: Book[] | undefined = body?.books;
+
+    if (!Array.isArray(books)) {
+      return NextResponse.json({ success: false, error: 'Missing books' }, { status: 400 });
+    }
+
+    const options = parseExportOptions(new URLSearchParams(body.options ?? {}));
+    const job = createJob(books, options);
+
+    return NextResponse.json({ success: true, jobId: job.id, status: job.status });
+  } catch (error) {
+    console.error('Error creating export job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create export job' },
+      { status: 500 }
+    );
+  }
+}
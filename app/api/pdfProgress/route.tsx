@@ -1,34 +1,63 @@
 import { NextRequest } from 'next/server';
-import { getProgress } from '@/lib/progressStore';
+import { getProgressEvent, subscribeProgress, type ProgressEvent } from '@/lib/progressStore';
+import { getJob } from '@/lib/jobQueue';
+
+// Keeps idle connections (e.g. while a job is queued) from being dropped
+const HEARTBEAT_MS = 15000;
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const jobId = searchParams.get('jobId');
   if (!jobId) return new Response("Missing jobId", { status: 400 });
 
-  let intervalId: NodeJS.Timeout;
+  // Loads the job queue, which reports queued and interrupted jobs after a restart
+  getJob(jobId);
+  const current = getProgressEvent(jobId);
+  if (!current) return new Response("Unknown jobId", { status: 404 });
+
+  let unsubscribe: (() => void) | null = null;
+  let heartbeatId: NodeJS.Timeout;
 
   const stream = new ReadableStream({
     start(controller) {
       const encoder = new TextEncoder();
 
-      intervalId = setInterval(() => {
-        const current = getProgress(jobId);
+      const stop = () => {
+        clearInterval(heartbeatId);
+        unsubscribe?.();
+        unsubscribe = null;
+      };
+
+      const send = (event: ProgressEvent) => {
         try {
-          controller.enqueue(encoder.encode(`data: ${current}\n\n`));
-          if (current >= 100) {
-            clearInterval(intervalId);
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+          // Final status: nothing more will come for this job
+          if (event.status !== 'running' && event.status !== 'queued') {
+            stop();
             controller.close();
           }
         } catch {
-          // Controller is closed (client disconnected), stop polling
-          clearInterval(intervalId);
+          // Controller is closed (client disconnected)
+          stop();
         }
-      }, 800);
+      };
+
+      heartbeatId = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(`: heartbeat\n\n`));
+        } catch {
+          stop();
+        }
+      }, HEARTBEAT_MS);
+
+      // Subscribe before sending the current state, a final state unsubscribes right away
+      unsubscribe = subscribeProgress(jobId, send);
+      send(getProgressEvent(jobId) ?? current);
     },
     cancel() {
       // Called when client disconnects
-      clearInterval(intervalId);
+      clearInterval(heartbeatId);
+      unsubscribe?.();
     }
   });
 
@@ -40,4 +69,3 @@ export async function GET(request: NextRequest) {
     },
   });
 }
-
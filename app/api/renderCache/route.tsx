@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getRenderCacheStats, clearRenderCache } from '@/lib/renderCache';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET: Returns size of the page render cache
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, ...getRenderCacheStats() });
+  } catch (error) {
+    console.error('Error reading render cache:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read render cache' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Removes all cached page renders
+export async function DELETE() {
+  try {
+    const removed = clearRenderCache();
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('Error clearing render cache:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to clear render cache' },
+      { status: 500 }
+    );
+  }
+}
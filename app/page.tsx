@@ -1,9 +1,9 @@
 "use client"
 
-import React, { useEffect, useState, useMemo, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useMemo, useRef } from 'react';
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
-import { ArrowLeft, ArrowRight, ArrowBigDownDash, ArrowUpDown, TextIcon, MoveIcon } from "lucide-react"
+import { ArrowLeft, ArrowRight, ArrowBigDownDash, ArrowUpDown, TextIcon, MoveIcon, X } from "lucide-react"
 import OrderBar from "@/components/order-bar"
 import {
     Tooltip,
@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
 import TocBar from "@/components/toc-bar"
 import { useI18n } from "@/components/i18n-provider"
 
@@ -57,6 +58,76 @@ type Book = {
     Issue: number[];
     Lang: string;
     Toggled: boolean;
+    // chapters (values from Issue) to export, all chapters if missing
+    SelectedIssues?: number[];
+};
+
+// One selectable chapter of a book, from /api/getChapters
+type BookChapter = {
+    issueProduct: number;
+    title: string;
+};
+
+type PageFormat = 'a4' | 'letter' | 'a5' | 'custom' | 'native';
+
+const PAGE_FORMATS: PageFormat[] = ['a4', 'letter', 'a5', 'custom', 'native'];
+
+type OutputMode = 'merged' | 'perBook' | 'perChapter';
+
+const OUTPUT_MODES: OutputMode[] = ['merged', 'perBook', 'perChapter'];
+
+type ExportFormat = 'pdf' | 'epub' | 'html';
+
+// Header / footer template slots, sent as export options of the same name
+type HeaderFooterSlot = 'headerLeft' | 'headerCenter' | 'headerRight' | 'footerLeft' | 'footerCenter' | 'footerRight';
+
+const HEADER_FOOTER_ROWS: { row: 'header' | 'footer'; slots: HeaderFooterSlot[] }[] = [
+    { row: 'header', slots: ['headerLeft', 'headerCenter', 'headerRight'] },
+    { row: 'footer', slots: ['footerLeft', 'footerCenter', 'footerRight'] },
+];
+
+const HEADER_FOOTER_PLACEHOLDERS = ['bookTitle', 'chapterTitle', 'printedPage', 'pdfPage', 'totalPages', 'date'];
+
+const DEFAULT_HEADER_FOOTER: Record<HeaderFooterSlot, string> = {
+    headerLeft: '',
+    headerCenter: '',
+    headerRight: '',
+    footerLeft: '',
+    footerCenter: '',
+    footerRight: '{{printedPage}}',
+};
+
+const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'epub', 'html'];
+
+type ImpositionMode = 'none' | '2up' | '4up' | 'booklet';
+
+const IMPOSITION_MODES: ImpositionMode[] = ['none', '2up', '4up', 'booklet'];
+
+type ImageQuality = 'original' | 'screen' | 'ebook' | 'print';
+
+const IMAGE_QUALITIES: ImageQuality[] = ['original', 'print', 'ebook', 'screen'];
+
+// 123456789 -> "117.7 MB"
+function formatMegabytes(bytes: number): string {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Running export job, kept so a reload can pick it up again
+const EXPORT_JOB_LOCALSTORAGE_KEY = "exportJobId";
+const EXPORT_JOB_POLL_MS = 2000;
+
+// JSON payload of /api/pdfProgress (see ProgressEvent in lib/progressStore.ts)
+type ExportProgress = {
+    phase: string | null;
+    percent: number;
+    current: number | null;
+    total: number | null;
+    etaSeconds: number | null;
+    part: { current: number; total: number } | null;
+    warnings: string[];
+    imageSavings: { originalBytes: number; compressedBytes: number } | null;
+    status: 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+    error: string | null;
 };
 
 type ProfileInfo = {
@@ -74,6 +145,9 @@ export default function BookReader() {
     const [maxPage, setMaxPage] = useState(1);
     const [isProgressVisible, setIsProgressVisible] = useState(false);
     const [progressClient, setProgressClient] = useState(0);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [isCancelled, setIsCancelled] = useState(false);
+    const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
     const [muteEvent, setMuteEvent] = useState(false);
     const [tocHtml, setTocHtml] = useState<{ id: string; content: React.ReactNode }[]>([]);
     const pageIframeSrc = useMemo(() => buildIframeSrc(content), [content]);
@@ -85,10 +159,27 @@ export default function BookReader() {
     const [books, setBooks] = useState<Book[]>([]);
     const [orderBarItems, setOrderBarItems] = useState<{ id: string; content: React.ReactNode }[]>([]); // TODO: maybe remove, books already beeing reordered, only here for img
     const [downloadError, setDownloadError] = useState(false);
+    const [chaptersByBook, setChaptersByBook] = useState<Record<string, BookChapter[]>>({});
 
     const [generateTocPages, setGenerateTocPages] = useState(true);
     const [exportQuiz, setExportQuiz] = useState(true);
+    const [inkSaver, setInkSaver] = useState(false);
+    const [imageQuality, setImageQuality] = useState<ImageQuality>('original');
     const [exportMyQuiz, setExportMyQuiz] = useState(false);
+    const [splitTallPages, setSplitTallPages] = useState(false);
+    const [renderWholeIssues, setRenderWholeIssues] = useState(false);
+    const [pageFormat, setPageFormat] = useState<PageFormat>('a4');
+    const [customPageWidthMm, setCustomPageWidthMm] = useState('210');
+    const [customPageHeightMm, setCustomPageHeightMm] = useState('297');
+    const [outputMode, setOutputMode] = useState<OutputMode>('merged');
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('pdf');
+    const [headerFooter, setHeaderFooter] = useState<Record<HeaderFooterSlot, string>>(DEFAULT_HEADER_FOOTER);
+    const [mirrorHeaderFooter, setMirrorHeaderFooter] = useState(false);
+    const [duplexChapterStarts, setDuplexChapterStarts] = useState(false);
+    const [gutterMm, setGutterMm] = useState('0');
+    const [imposition, setImposition] = useState<ImpositionMode>('none');
+    const [coverPages, setCoverPages] = useState(false);
+    const [attachMedia, setAttachMedia] = useState(false);
 
     const allBooksToggled = orderBarItems.length > 0 && orderBarItems.every(item => books.find(b => b.BookID === item.id)?.Toggled);
     const someBooksToggled = orderBarItems.some(item => books.find(b => b.BookID === item.id)?.Toggled);
@@ -149,24 +240,80 @@ export default function BookReader() {
     }, []);
 
     useEffect(() => {
-        const jobId = crypto.randomUUID();
-        setJobId(jobId);
-        setProgressClient(0);
+        if (!jobId) return;
 
         const eventSource = new EventSource(`/api/pdfProgress?jobId=${jobId}`);
 
         eventSource.onmessage = (event) => {
+            const progress: ExportProgress = JSON.parse(event.data);
+
             if (!muteEventRef.current) {
-                const progress = parseInt(event.data);
-                setProgressClient(progress);
+                setExportProgress(progress);
+                setProgressClient(progress.percent);
+                if (progress.status === 'cancelled') setIsCancelled(true);
             };
+
+            // The server closes the stream after the final status, don't let the browser reconnect
+            if (progress.status !== 'running' && progress.status !== 'queued') {
+                eventSource.close();
+            }
         };
 
         return () => {
             eventSource.close();
         };
+    }, [jobId]);
+
+    // Poll the job until it is finished, then download the PDF
+    // Declared before the effects, the resume effect below runs it on the first render
+    const waitForExportJob = useCallback(async (id: string) => {
+        try {
+            while (true) {
+                const response = await fetch(`/api/jobs/${id}`);
+                // Unknown job (removed or from another installation), nothing to resume
+                if (response.status === 404) break;
+                if (!response.ok) throw new Error('Failed to get export job');
+
+                const { job } = await response.json();
+
+                if (job.status === 'done') {
+                    setMuteEvent(prev => !prev);
+                    setProgressClient(100);
+                    const a = document.createElement('a');
+                    a.href = `/api/jobs/${id}/result`;
+                    a.download = job.resultFileName ?? 'book.pdf';
+                    a.click();
+                    break;
+                }
+                if (job.status === 'cancelled') {
+                    setIsCancelled(true);
+                    break;
+                }
+                if (job.status === 'failed') {
+                    throw new Error(job.error ?? 'Failed to generate PDF');
+                }
+
+                await new Promise(res => setTimeout(res, EXPORT_JOB_POLL_MS));
+            }
+        } catch (error) {
+            console.error('PDF generation failed:', error);
+        } finally {
+            // Also for unknown jobs and failed requests, so a reload never resumes them again
+            localStorage.removeItem(EXPORT_JOB_LOCALSTORAGE_KEY);
+        }
     }, []);
 
+    // Resume an export that was still queued or running before the page was reloaded
+    useEffect(() => {
+        const storedJobId = localStorage.getItem(EXPORT_JOB_LOCALSTORAGE_KEY);
+        if (!storedJobId) return;
+
+        setJobId(storedJobId);
+        setIsGenerating(true);
+        setIsProgressVisible(true);
+        waitForExportJob(storedJobId).finally(() => setIsGenerating(false));
+    }, [waitForExportJob]);
+
     useEffect(() => {
         const getBooks = async () => {
             if (!currentProfile) return;
@@ -186,6 +333,7 @@ export default function BookReader() {
                 const { booklist, booksymbols } = await response.json();
 
                 setBooks(booklist);
+                fetchChapters(booklist);
 
                 // Convert booksymbols array to items
                 const items = booksymbols.map((book: any) => ({
@@ -272,15 +420,57 @@ export default function BookReader() {
         });
     }, [books]);
 
-    // Function to toggle muteEvent
-    const toggleMuteEvent = () => {
-        setMuteEvent(prev => !prev);
-    };
-
     const toggleAllBooks = (checked: boolean) => {
         setBooks(prev => prev.map(book => ({ ...book, Toggled: checked })));
     };
 
+    // Load the chapter list of every book for the chapter selection in the TocBar
+    const fetchChapters = async (booklist: Book[]) => {
+        const entries = await Promise.all(booklist.map(async (book) => {
+            try {
+                const params = new URLSearchParams({ bookRef: book.Refrence });
+                const res = await fetch(`/api/getChapters?${params.toString()}`);
+                if (!res.ok) throw new Error('Failed to fetch chapters');
+
+                const { chapters } = await res.json();
+
+                // Several products can share one issue, list every issue once
+                const seen = new Set<number>();
+                const bookChapters: BookChapter[] = [];
+                for (const chapter of chapters) {
+                    if (!book.Issue.includes(chapter.issueProduct) || seen.has(chapter.issueProduct)) continue;
+                    seen.add(chapter.issueProduct);
+                    bookChapters.push({ issueProduct: chapter.issueProduct, title: chapter.title });
+                }
+                return [book.BookID, bookChapters] as const;
+            } catch (error) {
+                console.error('Error fetching chapters:', error);
+                return [book.BookID, []] as const;
+            }
+        }));
+
+        setChaptersByBook(Object.fromEntries(entries));
+    };
+
+    const toggleChapter = (bookId: string, issue: number) => {
+        setBooks(prev =>
+            prev.map(book => {
+                if (book.BookID !== bookId) return book;
+
+                const selected = book.SelectedIssues ?? book.Issue;
+                const next = selected.includes(issue)
+                    ? selected.filter(i => i !== issue)
+                    : book.Issue.filter(i => i === issue || selected.includes(i));
+
+                // Everything selected again: back to "whole book"
+                return {
+                    ...book,
+                    SelectedIssues: next.length === book.Issue.length ? undefined : next,
+                };
+            })
+        );
+    };
+
     const toggleSingleBook = (id: string) => {
         setBooks(prev =>
             prev.map(book =>
@@ -488,6 +678,9 @@ export default function BookReader() {
 
     // generate a PDF serverside
     const generatePDF = async () => {
+        // One export at a time, the poll of a second job would be cut short by the first one
+        if (isGenerating) return;
+
         // Check if any books are selected
         const selectedBooks = books.filter(book => book.Toggled);
         if (selectedBooks.length === 0) {
@@ -500,27 +693,61 @@ export default function BookReader() {
         try {
             setMuteEvent(false);
             setProgressClient(0);
+            setIsCancelled(false);
+            setExportProgress(null);
+            setIsGenerating(true);
             setIsProgressVisible(true);
 
-            const responsepdf = await fetch(
-                `/api/generatePdf?jobId=${jobId}&books=${encodeURIComponent(JSON.stringify(books))}` +
-                `&generateTocPages=${generateTocPages}&exportQuiz=${exportQuiz}&exportMyQuiz=${exportMyQuiz}`
-            );
-            if (!responsepdf.ok) throw new Error('Failed to generate PDF');
-
-            const blob = await responsepdf.blob();
-            toggleMuteEvent();
-            setProgressClient(98);
-            const url = window.URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            setProgressClient(99);
-            a.href = url;
-            a.download = 'book.pdf';
-            setProgressClient(100);
-            a.click();
-            window.URL.revokeObjectURL(url);
+            const options: Record<string, string> = {
+                generateTocPages: String(generateTocPages),
+                exportQuiz: String(exportQuiz),
+                inkSaver: String(inkSaver),
+                imageQuality,
+                exportMyQuiz: String(exportMyQuiz),
+                splitTallPages: String(splitTallPages),
+                renderWholeIssues: String(renderWholeIssues),
+                pageFormat,
+                outputMode,
+                format: exportFormat,
+                ...headerFooter,
+                mirrorHeaderFooter: String(mirrorHeaderFooter),
+                duplexChapterStarts: String(duplexChapterStarts),
+                gutterMm,
+                imposition,
+                coverPages: String(coverPages),
+                attachMedia: String(attachMedia),
+            };
+            if (pageFormat === 'custom') {
+                options.pageWidthMm = customPageWidthMm;
+                options.pageHeightMm = customPageHeightMm;
+            }
+
+            const response = await fetch('/api/jobs', {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ books, options }),
+            });
+            if (!response.ok) throw new Error('Failed to create export job');
+
+            const { jobId: newJobId } = await response.json();
+            localStorage.setItem(EXPORT_JOB_LOCALSTORAGE_KEY, newJobId);
+            setJobId(newJobId);
+
+            await waitForExportJob(newJobId);
         } catch (error) {
             console.error('PDF generation failed:', error);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const cancelPDF = async () => {
+        if (!jobId) return;
+        try {
+            await fetch(`/api/cancelPdf?jobId=${jobId}`, { method: "POST" });
+            setIsCancelled(true);
+        } catch (error) {
+            console.error('Failed to cancel PDF generation:', error);
         }
     };
 
@@ -530,16 +757,61 @@ export default function BookReader() {
                 <Button
                     variant="outline"
                     onClick={() => generatePDF()}
+                    disabled={isGenerating}
                     type="button"
                     className={`transition-all duration-300 ${downloadError ? 'border-red-500 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400' : ''}`}
                 >
                     <ArrowBigDownDash></ArrowBigDownDash>{t("bookReader.download")}
                 </Button>
-                <div className="w-full flex items-center justify-center gap-3">
-                    {isProgressVisible && <><Progress
-                        value={progressClient}
-                        className="transition duration-700 ease-in-out ..." /><span className="text-sm">{progressClient}%</span></>
-                    }
+                <div className="w-full flex flex-col justify-center gap-1">
+                    <div className="flex items-center justify-center gap-3">
+                        {isProgressVisible && (isCancelled
+                            ? <span className="text-sm">{t("bookReader.cancelled")}</span>
+                            : <><Progress
+                                value={progressClient}
+                                className="transition duration-700 ease-in-out ..." /><span className="text-sm">{progressClient}%</span></>)
+                        }
+                        {isGenerating && !isCancelled && (
+                            <Button variant="outline" size="sm" onClick={() => cancelPDF()} type="button">
+                                <X></X>{t("bookReader.cancel")}
+                            </Button>
+                        )}
+                    </div>
+                    {isProgressVisible && !isCancelled && exportProgress && (
+                        <div className="text-xs text-muted-foreground">
+                            {exportProgress.status === 'queued' && t("bookReader.progress.queued")}
+                            {exportProgress.status === 'running' && exportProgress.phase && (
+                                <span>
+                                    {exportProgress.part &&
+                                        `${t("bookReader.progress.part", { current: exportProgress.part.current, total: exportProgress.part.total })} · `}
+                                    {t(`bookReader.progress.phases.${exportProgress.phase}`)}
+                                    {exportProgress.current != null && exportProgress.total != null &&
+                                        ` ${exportProgress.current} / ${exportProgress.total}`}
+                                    {exportProgress.etaSeconds != null &&
+                                        ` · ${t("bookReader.progress.eta", { minutes: Math.max(1, Math.ceil(exportProgress.etaSeconds / 60)) })}`}
+                                </span>
+                            )}
+                            {exportProgress.status === 'failed' && (
+                                <span className="text-red-600 dark:text-red-400">
+                                    {t("bookReader.progress.failed", { error: exportProgress.error ?? '' })}
+                                </span>
+                            )}
+                            {exportProgress.status === 'done' && exportProgress.imageSavings && (
+                                <div>
+                                    {t("bookReader.progress.imageSavings", {
+                                        original: formatMegabytes(exportProgress.imageSavings.originalBytes),
+                                        compressed: formatMegabytes(exportProgress.imageSavings.compressedBytes),
+                                        percent: Math.round(
+                                            (1 - exportProgress.imageSavings.compressedBytes / exportProgress.imageSavings.originalBytes) * 100
+                                        ),
+                                    })}
+                                </div>
+                            )}
+                            {exportProgress.warnings.map((warning, i) => (
+                                <div key={i} className="text-amber-600 dark:text-amber-400">{warning}</div>
+                            ))}
+                        </div>
+                    )}
                 </div>
                 <Select
                     value={currentProfile}
@@ -618,6 +890,228 @@ export default function BookReader() {
                             <Label htmlFor="exportQuiz">{t("bookReader.exportQuiz")}</Label>
                         </div>
 
+                        {exportFormat === 'pdf' && (
+                            <div className="flex items-center gap-2">
+                                <Checkbox
+                                    id="inkSaver"
+                                    checked={inkSaver}
+                                    onCheckedChange={(checked) => setInkSaver(!!checked)}
+                                />
+                                <Label htmlFor="inkSaver">{t("bookReader.inkSaver")}</Label>
+                            </div>
+                        )}
+
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id="splitTallPages"
+                                checked={splitTallPages}
+                                onCheckedChange={(checked) => setSplitTallPages(!!checked)}
+                            />
+                            <Label htmlFor="splitTallPages">{t("bookReader.splitTallPages")}</Label>
+                        </div>
+
+                        {exportFormat === 'pdf' && (
+                            <div className="flex items-center gap-2">
+                                <Checkbox
+                                    id="renderWholeIssues"
+                                    checked={renderWholeIssues}
+                                    onCheckedChange={(checked) => setRenderWholeIssues(!!checked)}
+                                />
+                                <Label htmlFor="renderWholeIssues">{t("bookReader.renderWholeIssues")}</Label>
+                            </div>
+                        )}
+
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Label htmlFor="exportFormat">{t("bookReader.format.label")}</Label>
+                            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                                <SelectTrigger id="exportFormat" className="w-[160px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {EXPORT_FORMATS.map((format) => (
+                                        <SelectItem key={format} value={format}>
+                                            {t(`bookReader.format.${format}`)}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Label htmlFor="outputMode">{t("bookReader.outputMode.label")}</Label>
+                            <Select value={outputMode} onValueChange={(value) => setOutputMode(value as OutputMode)}>
+                                <SelectTrigger id="outputMode" className="w-[200px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {OUTPUT_MODES.map((mode) => (
+                                        <SelectItem key={mode} value={mode}>
+                                            {t(`bookReader.outputMode.${mode}`)}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        {/* EPUB and HTML are reflowable, page size does not apply */}
+                        {exportFormat === 'pdf' && (
+                            <div className="flex flex-wrap items-center gap-2">
+                                <Label htmlFor="pageFormat">{t("bookReader.pageFormat.label")}</Label>
+                                <Select value={pageFormat} onValueChange={(value) => setPageFormat(value as PageFormat)}>
+                                    <SelectTrigger id="pageFormat" className="w-[160px]">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {PAGE_FORMATS.map((format) => (
+                                            <SelectItem key={format} value={format}>
+                                                {t(`bookReader.pageFormat.${format}`)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {pageFormat === 'custom' && (
+                                    <>
+                                        <Input
+                                            type="number"
+                                            min={50}
+                                            max={1200}
+                                            className="w-[110px]"
+                                            aria-label={t("bookReader.pageFormat.widthMm")}
+                                            placeholder={t("bookReader.pageFormat.widthMm")}
+                                            value={customPageWidthMm}
+                                            onChange={(e) => setCustomPageWidthMm(e.target.value)}
+                                        />
+                                        <span className="text-sm">×</span>
+                                        <Input
+                                            type="number"
+                                            min={50}
+                                            max={1200}
+                                            className="w-[110px]"
+                                            aria-label={t("bookReader.pageFormat.heightMm")}
+                                            placeholder={t("bookReader.pageFormat.heightMm")}
+                                            value={customPageHeightMm}
+                                            onChange={(e) => setCustomPageHeightMm(e.target.value)}
+                                        />
+                                    </>
+                                )}
+                            </div>
+                        )}
+
+                        {exportFormat === 'pdf' && (
+                            <div className="flex flex-col gap-2">
+                                <Label>{t("bookReader.headerFooter.label")}</Label>
+                                {HEADER_FOOTER_ROWS.map(({ row, slots }) => (
+                                    <div key={row} className="flex flex-wrap items-center gap-2">
+                                        <span className="text-sm w-[60px]">{t(`bookReader.headerFooter.${row}`)}</span>
+                                        {slots.map((slot) => (
+                                            <Input
+                                                key={slot}
+                                                className="w-[180px]"
+                                                aria-label={t(`bookReader.headerFooter.slots.${slot}`)}
+                                                placeholder={t(`bookReader.headerFooter.slots.${slot}`)}
+                                                value={headerFooter[slot]}
+                                                onChange={(e) => setHeaderFooter((prev) => ({ ...prev, [slot]: e.target.value }))}
+                                            />
+                                        ))}
+                                    </div>
+                                ))}
+                                <p className="text-xs text-muted-foreground">{t("bookReader.headerFooter.placeholders", {
+                                    placeholders: HEADER_FOOTER_PLACEHOLDERS.map((name) => `{{${name}}}`).join(' '),
+                                })}</p>
+                                <div className="flex items-center gap-2">
+                                    <Checkbox
+                                        id="mirrorHeaderFooter"
+                                        checked={mirrorHeaderFooter}
+                                        onCheckedChange={(checked) => setMirrorHeaderFooter(!!checked)}
+                                    />
+                                    <Label htmlFor="mirrorHeaderFooter">{t("bookReader.headerFooter.mirror")}</Label>
+                                </div>
+                            </div>
+                        )}
+
+                        {exportFormat === 'pdf' && (
+                            <div className="flex items-center gap-2">
+                                <Checkbox
+                                    id="coverPages"
+                                    checked={coverPages}
+                                    onCheckedChange={(checked) => setCoverPages(!!checked)}
+                                />
+                                <Label htmlFor="coverPages">{t("bookReader.coverPages")}</Label>
+                            </div>
+                        )}
+
+                        {exportFormat === 'pdf' && (
+                            <div className="flex items-center gap-2">
+                                <Checkbox
+                                    id="attachMedia"
+                                    checked={attachMedia}
+                                    onCheckedChange={(checked) => setAttachMedia(!!checked)}
+                                />
+                                <Label htmlFor="attachMedia">{t("bookReader.attachMedia")}</Label>
+                            </div>
+                        )}
+
+                        {exportFormat === 'pdf' && (
+                            <div className="flex flex-wrap items-center gap-4">
+                                <div className="flex items-center gap-2">
+                                    <Checkbox
+                                        id="duplexChapterStarts"
+                                        checked={duplexChapterStarts}
+                                        onCheckedChange={(checked) => setDuplexChapterStarts(!!checked)}
+                                    />
+                                    <Label htmlFor="duplexChapterStarts">{t("bookReader.duplex.chapterStarts")}</Label>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Label htmlFor="gutterMm">{t("bookReader.duplex.gutterMm")}</Label>
+                                    <Input
+                                        id="gutterMm"
+                                        type="number"
+                                        min={0}
+                                        max={40}
+                                        className="w-[90px]"
+                                        value={gutterMm}
+                                        onChange={(e) => setGutterMm(e.target.value)}
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {exportFormat === 'pdf' && (
+                            <div className="flex flex-wrap items-center gap-2">
+                                <Label htmlFor="imposition">{t("bookReader.imposition.label")}</Label>
+                                <Select value={imposition} onValueChange={(value) => setImposition(value as ImpositionMode)}>
+                                    <SelectTrigger id="imposition" className="w-[220px]">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {IMPOSITION_MODES.map((mode) => (
+                                            <SelectItem key={mode} value={mode}>
+                                                {t(`bookReader.imposition.${mode}`)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
+                        {exportFormat === 'pdf' && (
+                            <div className="flex flex-wrap items-center gap-2">
+                                <Label htmlFor="imageQuality">{t("bookReader.imageQuality.label")}</Label>
+                                <Select value={imageQuality} onValueChange={(value) => setImageQuality(value as ImageQuality)}>
+                                    <SelectTrigger id="imageQuality" className="w-[220px]">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {IMAGE_QUALITIES.map((quality) => (
+                                            <SelectItem key={quality} value={quality}>
+                                                {t(`bookReader.imageQuality.${quality}`)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
                         {/* TODO: add feature
                         <div className="flex items-center gap-2">
                             <Checkbox
@@ -674,8 +1168,14 @@ export default function BookReader() {
                                         title: book?.Titel || book?.CourseName || t("bookReader.unknownBook"),
                                         content: tocEntry?.content || <div>{t("bookReader.noTocAvailable")}</div>,
                                         toggled: book?.Toggled || false,
+                                        chapters: (chaptersByBook[item.id] ?? []).map(chapter => ({
+                                            id: chapter.issueProduct,
+                                            title: chapter.title,
+                                            selected: (book?.SelectedIssues ?? book?.Issue ?? []).includes(chapter.issueProduct),
+                                        })),
                                     };
                                 })}
+                                onToggleChapter={toggleChapter}
                             />
                         </div>
                     </div>
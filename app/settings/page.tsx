@@ -45,11 +45,14 @@ export default function ContentPage() {
   const [loading, setLoading] = useState<boolean>(true);
   const [saving, setSaving] = useState<boolean>(false);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [renderCacheStats, setRenderCacheStats] = useState<{ entries: number; bytes: number } | null>(null);
+  const [renderCacheStatus, setRenderCacheStatus] = useState<string | null>(null);
 
   // Load current config on mount
   useEffect(() => {
     setThemeMounted(true);
     loadConfigAndProfiles();
+    loadRenderCacheStats();
   }, []);
 
   async function loadConfigAndProfiles() {
@@ -183,6 +186,37 @@ export default function ContentPage() {
     }
   }
 
+  async function loadRenderCacheStats() {
+    try {
+      const res = await fetch("/api/renderCache");
+      const data = await res.json();
+      if (res.ok && data.success) {
+        setRenderCacheStats({ entries: data.entries, bytes: data.bytes });
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  async function clearRenderCache() {
+    try {
+      const res = await fetch("/api/renderCache", { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok || !data.success) {
+        console.error("Clear render cache error:", data);
+        setRenderCacheStatus(t("settings.renderCache.clearError"));
+        return;
+      }
+
+      setRenderCacheStatus(t("settings.renderCache.cleared", { entries: data.removed.entries }));
+      setRenderCacheStats({ entries: 0, bytes: 0 });
+    } catch (err) {
+      console.error(err);
+      setRenderCacheStatus(t("settings.renderCache.clearError"));
+    }
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -324,6 +358,31 @@ export default function ContentPage() {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("settings.renderCache.title")}</CardTitle>
+          <CardDescription>
+            {t("settings.renderCache.description")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={clearRenderCache}>
+              {t("settings.renderCache.clear")}
+            </Button>
+
+            <span className="text-xs text-muted-foreground">
+              {renderCacheStatus ??
+                (renderCacheStats &&
+                  t("settings.renderCache.size", {
+                    entries: renderCacheStats.entries,
+                    megabytes: (renderCacheStats.bytes / (1024 * 1024)).toFixed(1),
+                  }))}
+            </span>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -2,20 +2,31 @@
 
 import React from "react"
 import { motion, AnimatePresence } from "framer-motion"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useI18n } from "@/components/i18n-provider"
+
+type TocChapter = {
+  id: number
+  title: string
+  selected: boolean
+}
 
 type TocItem = {
   id: string
   title: string
   content: React.ReactNode
   toggled?: boolean
+  chapters?: TocChapter[]
 }
 
 type TocBarProps = {
   items: TocItem[]
   onToggle?: (originalId: string) => void
+  onToggleChapter?: (originalId: string, chapterId: number) => void
 }
 
-export default function TocBar({ items }: TocBarProps) {
+export default function TocBar({ items, onToggleChapter }: TocBarProps) {
+  const { t } = useI18n()
   const hasToggledItems = items.some((item) => item.toggled)
 
   return (
@@ -30,6 +41,8 @@ export default function TocBar({ items }: TocBarProps) {
             .filter((item) => item.toggled)
             .map((item) => {
               const prefixedId = `toc-${item.id}`
+              const chapters = item.chapters ?? []
+              const selectedCount = chapters.filter((c) => c.selected).length
 
               return (
                 <motion.div
@@ -47,9 +60,35 @@ export default function TocBar({ items }: TocBarProps) {
                       <span className="text-sm font-medium truncate">
                         {item.title}
                       </span>
+                      {selectedCount < chapters.length && (
+                        <span className="ml-auto pl-2 text-xs whitespace-nowrap">
+                          {t("bookReader.chapters.selected", { selected: selectedCount, total: chapters.length })}
+                        </span>
+                      )}
                     </div>
 
                     <div className="max-h-0 opacity-0 px-0 pb-0 group-hover:max-h-[70vh] group-hover:opacity-100 group-hover:px-2 group-hover:pb-2 transition-all duration-200 overflow-y-auto">
+                      {chapters.length > 0 && (
+                        <div className="flex flex-col gap-1 pb-2 mb-2 border-b">
+                          <span className="text-xs font-medium">{t("bookReader.chapters.title")}</span>
+                          {chapters.map((chapter) => {
+                            const checkboxId = `${prefixedId}-chapter-${chapter.id}`
+
+                            return (
+                              <div key={chapter.id} className="flex items-center gap-2">
+                                <Checkbox
+                                  id={checkboxId}
+                                  checked={chapter.selected}
+                                  onCheckedChange={() => onToggleChapter?.(item.id, chapter.id)}
+                                />
+                                <label htmlFor={checkboxId} className="text-xs truncate cursor-pointer">
+                                  {chapter.title}
+                                </label>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      )}
                       {item.content}
                     </div>
                   </div>
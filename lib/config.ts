@@ -219,6 +219,12 @@ export function setConfig(config: AppConfig): void {
   }
 }
 
+// Per-user app data folder (config.json, export jobs, ...)
+export function getConfigDir(): string {
+  if (!fs.existsSync(CONFIG_DIR)) fs.mkdirSync(CONFIG_DIR, { recursive: true });
+  return CONFIG_DIR;
+}
+
 export type ResolvedPaths = {
   beookDir: string;
   selectedProfile: string;
@@ -0,0 +1,103 @@
+import sqlite from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import { getResolvedPaths } from '@/lib/config';
+import type { Book } from '@/lib/pdfExport';
+
+// Course images (cover, symbols) live in the fileSynch folder, one folder per course.
+// The folder name is ZCOURSECONFIGFILEREFERENCE minus one, as hex.
+
+export type CourseImage = {
+  mimeType: string;   // from the file extension, e.g. image/png
+  data: Buffer;
+};
+
+function findFolderContainingFile(rootDir: string, filename: string): string | null {
+  const subdirs = fs.readdirSync(rootDir);
+  for (const subdir of subdirs) {
+    const subPath = path.join(rootDir, subdir, filename);
+    if (fs.existsSync(subPath)) {
+      return subdir;
+    }
+  }
+  return null;
+}
+
+/**
+ * Folder of a course inside the fileSynch folder, from ZCOURSECONFIGFILEREFERENCE.
+ */
+export function getCourseImageFolder(configRef: unknown): string {
+  if (!configRef) return '';
+  try {
+    const adjusted = (parseInt(String(configRef), 16) - 1).toString(16).toUpperCase();
+    return adjusted.padStart(String(configRef).length, '0');
+  } catch {
+    return String(configRef);
+  }
+}
+
+/**
+ * Read an image of a course. Files that are not in the expected folder are searched
+ * in all course folders. Returns null if the image cannot be found.
+ */
+export function readCourseImage(imgPath: string, folder: string, filename: string): CourseImage | null {
+  if (!filename || !folder) return null;
+
+  const mimeType = `image/${path.extname(filename).slice(1).toLowerCase()}`;
+  const fullPath = path.join(imgPath, folder, filename);
+  try {
+    return { mimeType, data: fs.readFileSync(fullPath) };
+  } catch {
+    try {
+      const searchResult = findFolderContainingFile(imgPath, filename);
+      if (searchResult) {
+        return { mimeType, data: fs.readFileSync(path.join(imgPath, searchResult, filename)) };
+      }
+    } catch {
+      // handled below
+    }
+    console.warn(`Missing image at ${fullPath}`);
+    return null;
+  }
+}
+
+export function toImageDataUrl(image: CourseImage | null): string {
+  return image ? `data:${image.mimeType};base64,${image.data.toString('base64')}` : '';
+}
+
+/**
+ * Cover image (ZCOVERFILENAMELOWRES) of every toggled book, by BookID.
+ */
+export function loadCoverImages(books: Book[]): Map<string, CourseImage> {
+  const covers = new Map<string, CourseImage>();
+  const toggledBooks = books.filter((book) => book.Toggled);
+  if (toggledBooks.length === 0) return covers;
+
+  let db: sqlite.Database | null = null;
+  try {
+    const { dbPath, imgPath } = getResolvedPaths();
+    db = sqlite(dbPath, { readonly: true });
+
+    const statement = db.prepare(`
+      SELECT P."ZCOURSECONFIGFILEREFERENCE", P."ZCOVERFILENAMELOWRES"
+      FROM "ZILPCOURSEDEF" D
+      JOIN "ZILPCOURSEPRODUCT" P ON D."ZREFERENCE" = P."ZCOURSEREFERENCE"
+      WHERE D."Z_PK" = ?
+    `);
+
+    for (const book of toggledBooks) {
+      const row = statement.get(Number(book.BookID)) as Record<string, unknown> | undefined;
+      if (!row) continue;
+
+      const folder = getCourseImageFolder(row['ZCOURSECONFIGFILEREFERENCE']);
+      const image = readCourseImage(imgPath, folder, String(row['ZCOVERFILENAMELOWRES'] ?? ''));
+      if (image) covers.set(book.BookID, image);
+    }
+  } catch (err) {
+    console.error('Failed to read cover images:', err);
+  } finally {
+    db?.close();
+  }
+
+  return covers;
+}
@@ -0,0 +1,179 @@
+import { PDFDocument, PDFImage, PDFPage, rgb } from 'pdf-lib';
+import { drawText, type PdfTextFont } from '@/lib/pdfFonts';
+import { getExportLabels } from '@/lib/exportLabels';
+import type { CourseImage } from '@/lib/courseImages';
+import type { CourseMetadata } from '@/lib/pdfMetadata';
+
+// Cover pages in front of every book of the PDF export:
+//   book cover:         course ID, title, cover image, ISBN and language
+//   compilation cover:  multi-book exports, list of all included books
+// Labels follow the language of the (first) book, like the HTML site export.
+
+export type CoverBook = CourseMetadata & {
+  image: CourseImage | null;
+};
+
+export type CoverFonts = {
+  bodyFont: PdfTextFont;
+  boldFont: PdfTextFont;
+};
+
+const MARGIN = 56;
+const TITLE_SIZE = 26;
+const TITLE_LINE_HEIGHT = 32;
+const TEXT_SIZE = 12;
+const TEXT_LINE_HEIGHT = 18;
+const LIST_TITLE_SIZE = 13;
+const MAX_TITLE_LINES = 4;
+const TEXT_COLOR = rgb(0, 0, 0);
+const MUTED_COLOR = rgb(0.35, 0.35, 0.35);
+
+// "DE" -> "Deutsch", in the language of the labels; the code itself if unknown
+function getLanguageName(lang: string, displayLang: string | undefined): string {
+  const code = lang.trim().toLowerCase();
+  if (!code) return '';
+  try {
+    const names = new Intl.DisplayNames([(displayLang || 'de').trim().toLowerCase()], { type: 'language' });
+    return names.of(code) ?? lang;
+  } catch {
+    return lang;
+  }
+}
+
+/**
+ * Break text into lines of at most maxWidth. The last allowed line is shortened with an ellipsis.
+ */
+function wrapLines(text: string, font: PdfTextFont, size: number, maxWidth: number, maxLines: number): string[] {
+  const words = text.normalize('NFC').split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (!current || font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    lines.push(current);
+    current = word;
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  let last = `${kept[maxLines - 1]} ${lines[maxLines]}`;
+  while (last.length > 0 && font.widthOfTextAtSize(`${last}…`, size) > maxWidth) {
+    last = last.slice(0, -1).trimEnd();
+  }
+  kept[maxLines - 1] = `${last}…`;
+  return kept;
+}
+
+async function drawCentered(page: PDFPage, text: string, y: number, font: PdfTextFont, size: number, color = TEXT_COLOR) {
+  const width = font.widthOfTextAtSize(text, size);
+  await drawText(page, text, { x: (page.getWidth() - width) / 2, y, size, font, color });
+}
+
+async function embedCoverImage(pdfDoc: PDFDocument, image: CourseImage | null): Promise<PDFImage | null> {
+  if (!image) return null;
+  try {
+    if (image.mimeType === 'image/png') return await pdfDoc.embedPng(image.data);
+    if (image.mimeType === 'image/jpeg' || image.mimeType === 'image/jpg') return await pdfDoc.embedJpg(image.data);
+  } catch (err) {
+    console.error('Failed to embed cover image', err);
+  }
+  // other formats are skipped, the cover then shows the text only
+  return null;
+}
+
+/**
+ * Cover of a single book: course ID and title at the top, the cover image in the middle,
+ * ISBN and language at the bottom.
+ */
+export async function drawBookCover(pdfDoc: PDFDocument, page: PDFPage, fonts: CoverFonts, book: CoverBook) {
+  const labels = getExportLabels(book.lang);
+  const { width, height } = page.getSize();
+  const textWidth = width - 2 * MARGIN;
+
+  let y = height - MARGIN - TEXT_SIZE;
+  if (book.courseId) {
+    await drawCentered(page, book.courseId, y, fonts.boldFont, TEXT_SIZE, MUTED_COLOR);
+    y -= TEXT_LINE_HEIGHT * 2;
+  }
+
+  for (const line of wrapLines(book.title, fonts.boldFont, TITLE_SIZE, textWidth, MAX_TITLE_LINES)) {
+    y -= TITLE_SIZE;
+    await drawCentered(page, line, y, fonts.boldFont, TITLE_SIZE);
+    y -= TITLE_LINE_HEIGHT - TITLE_SIZE;
+  }
+
+  // Details from the bottom up
+  const details = [
+    book.isbn ? `${labels.isbn} ${book.isbn}` : '',
+    book.lang ? `${labels.language}: ${getLanguageName(book.lang, book.lang)}` : '',
+  ].filter(Boolean);
+  let detailsY = MARGIN;
+  for (const line of [...details].reverse()) {
+    await drawCentered(page, line.normalize('NFC'), detailsY, fonts.bodyFont, TEXT_SIZE, MUTED_COLOR);
+    detailsY += TEXT_LINE_HEIGHT;
+  }
+
+  const image = await embedCoverImage(pdfDoc, book.image);
+  if (!image) return;
+
+  // Image box between title and details
+  const boxTop = y - TEXT_LINE_HEIGHT * 2;
+  const boxBottom = detailsY + TEXT_LINE_HEIGHT;
+  const boxHeight = boxTop - boxBottom;
+  if (boxHeight <= 0) return;
+
+  const scale = Math.min(textWidth / image.width, boxHeight / image.height);
+  const imageWidth = image.width * scale;
+  const imageHeight = image.height * scale;
+  page.drawImage(image, {
+    x: (width - imageWidth) / 2,
+    y: boxBottom + (boxHeight - imageHeight) / 2,
+    width: imageWidth,
+    height: imageHeight,
+  });
+}
+
+/**
+ * Cover of a multi-book export: one block per book with title, course ID and ISBN.
+ * Books that do not fit on the page are left out.
+ */
+export async function drawCompilationCover(page: PDFPage, fonts: CoverFonts, books: CoverBook[]) {
+  const labels = getExportLabels(books[0]?.lang);
+  const { width, height } = page.getSize();
+  const textWidth = width - 2 * MARGIN;
+
+  let y = height - MARGIN - TITLE_SIZE;
+  await drawCentered(page, labels.compilation, y, fonts.boldFont, TITLE_SIZE);
+  y -= TITLE_LINE_HEIGHT + TEXT_LINE_HEIGHT;
+
+  await drawText(page, `${labels.contains}:`, { x: MARGIN, y, size: TEXT_SIZE, font: fonts.bodyFont, color: MUTED_COLOR });
+  y -= TEXT_LINE_HEIGHT * 2;
+
+  for (const book of books) {
+    const titleLines = wrapLines(book.title, fonts.boldFont, LIST_TITLE_SIZE, textWidth, 2);
+    const details = [
+      book.courseId,
+      book.isbn ? `${labels.isbn} ${book.isbn}` : '',
+      getLanguageName(book.lang, books[0]?.lang),
+    ].filter(Boolean).join(' · ');
+
+    const blockHeight = titleLines.length * TEXT_LINE_HEIGHT + (details ? TEXT_LINE_HEIGHT : 0);
+    if (y - blockHeight < MARGIN) break;
+
+    for (const line of titleLines) {
+      await drawText(page, line, { x: MARGIN, y, size: LIST_TITLE_SIZE, font: fonts.boldFont, color: TEXT_COLOR });
+      y -= TEXT_LINE_HEIGHT;
+    }
+    if (details) {
+      await drawText(page, details.normalize('NFC'), { x: MARGIN, y, size: TEXT_SIZE - 1, font: fonts.bodyFont, color: MUTED_COLOR });
+      y -= TEXT_LINE_HEIGHT;
+    }
+    y -= TEXT_LINE_HEIGHT;
+  }
+}
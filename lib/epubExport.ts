@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+import puppeteer from 'puppeteer';
+import { createZip, type ZipEntry } from '@/lib/zip';
+import {
+  ExportResources,
+  buildTocList,
+  escapeXml,
+  unescapeXmlText,
+  type ExportResource,
+} from '@/lib/exportResources';
+import { getExportLabels } from '@/lib/exportLabels';
+import { throwIfCancelled } from '@/lib/progressStore';
+import {
+  formatQuestionNumbers,
+  type Book,
+  type MergedTOCEntry,
+  type QuizBook,
+} from '@/lib/pdfExport';
+
+// EPUB 3 export
+// The processed HTML pages from buildTopicPage are turned into XHTML by the browser,
+// the inlined data: URLs (images, fonts) become manifest items and the shared CSS
+// is written once per distinct stylesheet. Layout:
+//   mimetype
+//   META-INF/container.xml
+//   OEBPS/content.opf, OEBPS/nav.xhtml
+//   OEBPS/text/*.xhtml, OEBPS/styles/*.css, OEBPS/images/*, OEBPS/fonts/*
+
+export type EpubContent = {
+  books: Book[];                        // toggled books, in export order
+  pages: string[];                      // XHTML from serializePagesToXhtml, one per HTML page
+  printedPageNumbers: (number | null)[];
+  tocData: MergedTOCEntry[][];          // page numbers are 1-based indices into pages
+  quizBooks: QuizBook[];                // empty: no quiz appendix
+};
+
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+// Reflowable reading: drop the print margins of the PDF layout
+const EPUB_CSS = `html, body {
+  padding: 0 !important;
+  margin: 0 0.5em !important;
+  width: auto !important;
+}
+img, svg {
+  max-width: 100% !important;
+  height: auto !important;
+}
+.quiz-question { margin: 1em 0; }
+.quiz-answers { list-style-type: upper-alpha; }
+.quiz-material { text-align: center; }
+.quiz-caption { font-style: italic; }
+`;
+
+function pageFileName(pageNumber: number): string {
+  return `page-${String(pageNumber).padStart(4, '0')}.xhtml`;
+}
+
+/**
+ * Load every HTML page in a headless browser and serialize it as XHTML.
+ * Navigation elements and scripts are removed, the rest is kept as rendered for the PDF.
+ */
+export async function serializePagesToXhtml(
+  jobId: string,
+  htmlPages: string[],
+  onPage?: (done: number, total: number) => void
+): Promise<string[]> {
+  const browser = await puppeteer.launch({
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    headless: true,
+  });
+
+  const result: string[] = [];
+  try {
+    const page = await browser.newPage();
+    await page.setJavaScriptEnabled(false);
+
+    for (let i = 0; i < htmlPages.length; i++) {
+      throwIfCancelled(jobId);
+
+      await page.setContent(htmlPages[i], { waitUntil: 'domcontentloaded' });
+      const xhtml = await page.evaluate(() => {
+        const selectorsToRemove = [
+          'script',
+          '.navigationWrapper',
+          '.pageNavigationTable',
+          '.navigationMiniToc',
+          '.pageInfo',
+        ];
+        selectorsToRemove.forEach((sel) => {
+          document.querySelectorAll(sel).forEach((el) => el.remove());
+        });
+        document.querySelectorAll('meta[name="viewport"]').forEach((el) => el.remove());
+
+        return new XMLSerializer().serializeToString(document.documentElement);
+      });
+
+      result.push(xhtml);
+      onPage?.(i + 1, htmlPages.length);
+    }
+  } finally {
+    await browser.close();
+  }
+
+  return result;
+}
+
+/**
+ * Turn one serialized page into an EPUB content document:
+ * inline styles become linked stylesheets, data: images become files.
+ */
+function toContentDocument(xhtml: string, title: string, resources: ExportResources): string {
+  const stylesheetLinks: string[] = [];
+
+  let body = xhtml.replace(/<style\b[^>]*>([\s\S]*?)<\/style>/g, (_match, css: string) => {
+    const item = resources.addStylesheet(unescapeXmlText(css));
+    stylesheetLinks.push(`<link rel="stylesheet" type="text/css" href="../${item.href}"/>`);
+    return '';
+  });
+  body = resources.rewriteImageSources(body);
+
+  // Keep only what is inside <body>, the head is rebuilt below
+  const bodyMatch = body.match(/<body\b[^>]*>[\s\S]*<\/body>/);
+  const bodyXhtml = bodyMatch ? bodyMatch[0] : `<body>${body}</body>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="${XHTML_NS}" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+${stylesheetLinks.join('\n')}
+<link rel="stylesheet" type="text/css" href="../styles/epub.css"/>
+</head>
+${bodyXhtml}
+</html>
+`;
+}
+
+function imageTag(dataUrl: string, resources: ExportResources): string {
+  const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*?)?;base64,(.+)$/);
+  if (!match) return '';
+  const item = resources.addDataUrl(match[1], match[2]);
+  return `<img src="../${item.href}" alt=""/>`;
+}
+
+/**
+ * Quiz appendix for one book: questions (with their material), then the solutions.
+ * Returns the document and the ids of the two sections for the nav.
+ */
+function buildQuizDocument(quizBook: QuizBook, resources: ExportResources): string {
+  const labels = getExportLabels(quizBook.lang ?? undefined);
+  const parts: string[] = [];
+
+  parts.push(`<section epub:type="appendix" id="quiz"><h1>${escapeXml(`${labels.quiz} – ${quizBook.title}`)}</h1>`);
+  for (const chapter of quizBook.chapters) {
+    parts.push(`<section><h2>${escapeXml(chapter.title)}</h2>`);
+
+    for (const group of chapter.sharedAssets || []) {
+      const caption = group.questionNumbers.length
+        ? `${labels.material} ${formatQuestionNumbers(group.questionNumbers)}`
+        : labels.materialMany;
+      parts.push(
+        `<div class="quiz-material">${group.pages.map((asset) => imageTag(asset.dataUrl, resources)).join('')}` +
+        `<p class="quiz-caption">${escapeXml(caption)}</p></div>`
+      );
+    }
+
+    chapter.questions.forEach((question, index) => {
+      parts.push(`<div class="quiz-question"><p>${index + 1}. ${escapeXml(question.text)}</p>`);
+      if (question.answers.length) {
+        parts.push(`<ol class="quiz-answers">${question.answers.map((a) => `<li>${escapeXml(a.text)}</li>`).join('')}</ol>`);
+      }
+      for (const asset of question.assets) {
+        parts.push(`<div class="quiz-material">${imageTag(asset.dataUrl, resources)}</div>`);
+      }
+      parts.push('</div>');
+    });
+
+    parts.push('</section>');
+  }
+  parts.push('</section>');
+
+  const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  parts.push(`<section epub:type="appendix" id="solutions"><h1>${escapeXml(`${labels.solutions} – ${quizBook.title}`)}</h1>`);
+  for (const chapter of quizBook.chapters) {
+    parts.push(`<h2>${escapeXml(chapter.title)}</h2><p>`);
+    const solutions = chapter.questions.map((question, index) => {
+      const correctIndex = question.answers.findIndex((a) => a.isCorrect === true);
+      return `${index + 1}. ${correctIndex === -1 ? '–' : LETTERS[correctIndex] ?? `#${question.answers[correctIndex].number}`}`;
+    });
+    parts.push(`${escapeXml(solutions.join(' · '))}</p>`);
+  }
+  parts.push('</section>');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="${XHTML_NS}" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(`${labels.quiz} – ${quizBook.title}`)}</title>
+<link rel="stylesheet" type="text/css" href="../styles/epub.css"/>
+</head>
+<body>
+${parts.join('\n')}
+</body>
+</html>
+`;
+}
+
+function buildNavDocument(content: EpubContent, quizDocs: { href: string; title: string }[], title: string): string {
+  const bookItems = content.books.map((book, bookIndex) => {
+    const entries = content.tocData[bookIndex] ?? [];
+    const firstPage = entries[0]?.[0] ?? 1;
+    const bookTitle = escapeXml(String(book.Titel || book.CourseName || `Book ${bookIndex + 1}`));
+    return `<li><a href="text/${pageFileName(firstPage)}">${bookTitle}</a>${buildTocList(entries, (page) => `text/${pageFileName(page)}`)}</li>`;
+  });
+
+  const quizItems = quizDocs.map((doc) =>
+    `<li><a href="${doc.href}#quiz">${escapeXml(doc.title)}</a></li>`
+  );
+
+  const pageItems = content.printedPageNumbers
+    .map((printed, index) => printed == null
+      ? ''
+      : `<li><a href="text/${pageFileName(index + 1)}">${printed}</a></li>`)
+    .filter(Boolean);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="${XHTML_NS}" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>${escapeXml(title)}</h1>
+<ol>
+${[...bookItems, ...quizItems].join('\n')}
+</ol>
+</nav>
+${pageItems.length ? `<nav epub:type="page-list" hidden="hidden"><ol>${pageItems.join('')}</ol></nav>` : ''}
+</body>
+</html>
+`;
+}
+
+/**
+ * Package the serialized pages as EPUB 3.
+ */
+export function createEpub(content: EpubContent): Uint8Array {
+  const resources = new ExportResources();
+  const textItems: ExportResource[] = [];
+
+  const title = content.books.map((book) => String(book.Titel || book.CourseName)).join(' / ') || 'Beook2PDF';
+  const lang = (content.books[0]?.Lang || 'de').trim().toLowerCase();
+
+  content.pages.forEach((xhtml, index) => {
+    const fileName = pageFileName(index + 1);
+    const printed = content.printedPageNumbers[index];
+    const doc = toContentDocument(xhtml, printed != null ? `${title} – ${printed}` : title, resources);
+    textItems.push({
+      id: fileName.replace('.xhtml', ''),
+      href: `text/${fileName}`,
+      mediaType: 'application/xhtml+xml',
+      data: new Uint8Array(Buffer.from(doc, 'utf-8')),
+    });
+  });
+
+  const quizDocs: { href: string; title: string }[] = [];
+  content.quizBooks.forEach((quizBook, index) => {
+    const fileName = `quiz-${String(index + 1).padStart(2, '0')}.xhtml`;
+    textItems.push({
+      id: fileName.replace('.xhtml', ''),
+      href: `text/${fileName}`,
+      mediaType: 'application/xhtml+xml',
+      data: new Uint8Array(Buffer.from(buildQuizDocument(quizBook, resources), 'utf-8')),
+    });
+    quizDocs.push({ href: `text/${fileName}`, title: `${getExportLabels(quizBook.lang ?? undefined).quiz} – ${quizBook.title}` });
+  });
+
+  const navItem: ExportResource = {
+    id: 'nav',
+    href: 'nav.xhtml',
+    mediaType: 'application/xhtml+xml',
+    properties: 'nav',
+    data: new Uint8Array(Buffer.from(buildNavDocument(content, quizDocs, title), 'utf-8')),
+  };
+  const epubCss: ExportResource = {
+    id: 'epub-css',
+    href: 'styles/epub.css',
+    mediaType: 'text/css',
+    data: new Uint8Array(Buffer.from(EPUB_CSS, 'utf-8')),
+  };
+
+  const manifestItems = [navItem, epubCss, ...textItems, ...resources.items];
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(lang)}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:language>${escapeXml(lang)}</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+${manifestItems.map((item) =>
+  `<item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ''}/>`
+).join('\n')}
+</manifest>
+<spine>
+${textItems.map((item) => `<itemref idref="${item.id}"/>`).join('\n')}
+</spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+  const entries: ZipEntry[] = [
+    // must be the first entry and stored uncompressed
+    { name: 'mimetype', data: new Uint8Array(Buffer.from('application/epub+zip', 'ascii')), store: true },
+    { name: 'META-INF/container.xml', data: new Uint8Array(Buffer.from(container, 'utf-8')) },
+    { name: 'OEBPS/content.opf', data: new Uint8Array(Buffer.from(opf, 'utf-8')) },
+    ...manifestItems.map((item) => ({ name: `OEBPS/${item.href}`, data: item.data })),
+  ];
+
+  return createZip(entries);
+}
@@ -0,0 +1,109 @@
+// Labels of the text the exporters generate themselves (cover pages, HTML site, EPUB quiz),
+// in the language of the book. Unknown languages get the German labels.
+
+export type ExportLabels = {
+  // cover pages
+  isbn: string;
+  language: string;
+  compilation: string;
+  contains: string;
+  // HTML site navigation and search
+  contents: string;
+  previous: string;
+  next: string;
+  search: string;
+  noResults: string;
+  page: string;
+  // quiz appendix
+  quiz: string;
+  solutions: string;
+  material: string;
+  materialMany: string;
+};
+
+const EXPORT_LABELS: Record<string, ExportLabels> = {
+  DE: {
+    isbn: 'ISBN',
+    language: 'Sprache',
+    compilation: 'Sammelband',
+    contains: 'Enthält',
+    contents: 'Inhalt',
+    previous: 'Zurück',
+    next: 'Weiter',
+    search: 'Suchen',
+    noResults: 'Keine Treffer',
+    page: 'Seite',
+    quiz: 'Quiz',
+    solutions: 'Lösungen',
+    material: 'Material für Fragen',
+    materialMany: 'Material für mehrere Fragen',
+  },
+  EN: {
+    isbn: 'ISBN',
+    language: 'Language',
+    compilation: 'Compilation',
+    contains: 'Contains',
+    contents: 'Contents',
+    previous: 'Previous',
+    next: 'Next',
+    search: 'Search',
+    noResults: 'No results',
+    page: 'Page',
+    quiz: 'Quiz',
+    solutions: 'Solutions',
+    material: 'Material for questions',
+    materialMany: 'Material for multiple questions',
+  },
+  ES: {
+    isbn: 'ISBN',
+    language: 'Idioma',
+    compilation: 'Recopilación',
+    contains: 'Contiene',
+    contents: 'Índice',
+    previous: 'Anterior',
+    next: 'Siguiente',
+    search: 'Buscar',
+    noResults: 'Sin resultados',
+    page: 'Página',
+    quiz: 'Cuestionario',
+    solutions: 'Soluciones',
+    material: 'Material para las preguntas',
+    materialMany: 'Material para varias preguntas',
+  },
+  FR: {
+    isbn: 'ISBN',
+    language: 'Langue',
+    compilation: 'Recueil',
+    contains: 'Contient',
+    contents: 'Sommaire',
+    previous: 'Précédent',
+    next: 'Suivant',
+    search: 'Rechercher',
+    noResults: 'Aucun résultat',
+    page: 'Page',
+    quiz: 'Quiz',
+    solutions: 'Solutions',
+    material: 'Matériel pour les questions',
+    materialMany: 'Matériel pour plusieurs questions',
+  },
+  IT: {
+    isbn: 'ISBN',
+    language: 'Lingua',
+    compilation: 'Raccolta',
+    contains: 'Contiene',
+    contents: 'Indice',
+    previous: 'Precedente',
+    next: 'Successivo',
+    search: 'Cerca',
+    noResults: 'Nessun risultato',
+    page: 'Pagina',
+    quiz: 'Quiz',
+    solutions: 'Soluzioni',
+    material: 'Materiale per le domande',
+    materialMany: 'Materiale per più domande',
+  },
+};
+
+export function getExportLabels(lang: string | undefined): ExportLabels {
+  return EXPORT_LABELS[(lang || 'DE').trim().toUpperCase()] ?? EXPORT_LABELS.DE;
+}
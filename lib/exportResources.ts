@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import type { MergedTOCEntry } from '@/lib/pdfExport';
+
+// Shared by the EPUB and HTML site export.
+// buildTopicPage inlines every image and font as data: URL so Puppeteer can render a page
+// on its own; file based exports move them back out into images/, fonts/ and styles/.
+// Pages are expected one folder deep (text/ or pages/), links are written as ../<folder>/<file>.
+
+export type ExportResource = {
+  id: string;
+  href: string;       // relative to the export root
+  mediaType: string;
+  properties?: string;
+  data: Uint8Array;
+};
+
+const MEDIA_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'font/woff': 'woff',
+  'font/woff2': 'woff2',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'application/font-woff': 'woff',
+  'application/x-font-woff': 'woff',
+  'application/font-sfnt': 'ttf',
+  'application/x-font-ttf': 'ttf',
+  'application/vnd.ms-opentype': 'otf',
+};
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Text content of a serialized <style> element back to plain CSS
+export function unescapeXmlText(text: string): string {
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+function shortHash(data: Uint8Array | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex').slice(0, 16);
+}
+
+/**
+ * Collects images, fonts and stylesheets, each distinct file is stored once.
+ */
+export class ExportResources {
+  readonly items: ExportResource[] = [];
+  private byHash = new Map<string, ExportResource>();
+
+  private add(folder: string, prefix: string, data: Uint8Array, mediaType: string): ExportResource {
+    const hash = shortHash(data);
+    const existing = this.byHash.get(`${folder}/${hash}`);
+    if (existing) return existing;
+
+    const extension = MEDIA_TYPE_EXTENSIONS[mediaType] ?? (folder === 'styles' ? 'css' : 'bin');
+    const item: ExportResource = {
+      id: `${prefix}-${hash}`,
+      href: `${folder}/${prefix}-${hash}.${extension}`,
+      mediaType,
+      data,
+    };
+    this.byHash.set(`${folder}/${hash}`, item);
+    this.items.push(item);
+    return item;
+  }
+
+  addDataUrl(mediaType: string, base64: string): ExportResource {
+    const folder = mediaType.startsWith('image/') ? 'images' : 'fonts';
+    const prefix = folder === 'images' ? 'img' : 'font';
+    return this.add(folder, prefix, new Uint8Array(Buffer.from(base64, 'base64')), mediaType.toLowerCase());
+  }
+
+  // Move url(data:...) out of the CSS, paths are relative to styles/
+  addStylesheet(css: string): ExportResource {
+    const rewritten = css.replace(
+      /url\(\s*(['"]?)data:([^;,'")]+)(?:;[^,'")]*?)?;base64,([^'")]+)\1\s*\)/g,
+      (_match, _quote, mediaType: string, base64: string) => {
+        const item = this.addDataUrl(mediaType.trim(), base64.trim());
+        return `url("../${item.href}")`;
+      }
+    );
+    return this.add('styles', 'style', new Uint8Array(Buffer.from(rewritten, 'utf-8')), 'text/css');
+  }
+
+  // Replace src="data:..." attributes with files, paths are relative to the page folder
+  rewriteImageSources(html: string): string {
+    return html.replace(
+      /\ssrc="data:([^;",]+)(?:;[^",]*?)?;base64,([^"]+)"/g,
+      (_match, mediaType: string, base64: string) => {
+        const item = this.addDataUrl(mediaType.trim(), base64.replace(/\s+/g, ''));
+        return ` src="../${item.href}"`;
+      }
+    );
+  }
+}
+
+/**
+ * Nested <ol> for one book. Levels may skip (1 -> 3), deeper entries then
+ * simply hang below the last entry.
+ */
+export function buildTocList(entries: MergedTOCEntry[], hrefForPage: (page: number) => string): string {
+  let html = '';
+  const openLevels: number[] = [];
+
+  for (const [pdfPage, , label, level] of entries) {
+    const link = `<a href="${hrefForPage(pdfPage)}">${escapeXml(label)}</a>`;
+
+    if (openLevels.length === 0) {
+      html += `<ol><li>${link}`;
+      openLevels.push(level);
+      continue;
+    }
+
+    if (level > openLevels[openLevels.length - 1]) {
+      html += `<ol><li>${link}`;
+      openLevels.push(level);
+      continue;
+    }
+
+    while (openLevels.length > 1 && level < openLevels[openLevels.length - 1]) {
+      html += '</li></ol>';
+      openLevels.pop();
+    }
+    html += `</li><li>${link}`;
+  }
+
+  while (openLevels.length > 0) {
+    html += '</li></ol>';
+    openLevels.pop();
+  }
+  return html;
+}
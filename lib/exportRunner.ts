@@ -0,0 +1,75 @@
+import { Worker } from 'worker_threads';
+// On glibc Linux sharp has to be loaded by the main thread before any worker uses it,
+// otherwise its shared libraries are unloaded when the first worker exits
+import 'sharp';
+import {
+  ExportCancelledError,
+  clearCancelled,
+  onCancelRequested,
+  setProgressEvent,
+} from '@/lib/progressStore';
+import type { Book, ExportOptions, ExportResult } from '@/lib/pdfExport';
+import type { ExportWorkerCommand, ExportWorkerData, ExportWorkerMessage } from '@/lib/exportWorker';
+
+// Runs runPdfExport in a worker thread (see exportWorker) and mirrors its progress into
+// the progress store of the server, so progress streams and cancellation work as before.
+// Whatever happens to the worker, the promise settles: a worker that throws outside the
+// pipeline, runs out of memory or exits early rejects with an error for the job.
+
+type WorkerOutcome = { result: ExportResult } | { error: Error };
+
+/**
+ * Run the whole export in its own worker thread, see runPdfExport.
+ * Throws ExportCancelledError when the job is cancelled.
+ */
+export function runExportInWorker(
+  jobId: string,
+  books: Book[],
+  options: ExportOptions
+): Promise<ExportResult> {
+  // The job id may be reused, so forget an earlier cancellation
+  clearCancelled(jobId);
+
+  return new Promise((resolve, reject) => {
+    const workerData: ExportWorkerData = { jobId, books, options };
+    const worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { workerData });
+    let outcome: WorkerOutcome | null = null;
+
+    const removeCancelListener = onCancelRequested(jobId, () => {
+      const command: ExportWorkerCommand = { type: 'cancel' };
+      worker.postMessage(command);
+    });
+
+    worker.on('message', (message: ExportWorkerMessage) => {
+      switch (message.type) {
+        case 'progress':
+          setProgressEvent(jobId, message.event);
+          break;
+        case 'result':
+          outcome = { result: message.result };
+          break;
+        case 'error':
+          outcome = {
+            error: message.cancelled ? new ExportCancelledError(jobId) : new Error(message.message),
+          };
+          break;
+      }
+    });
+
+    // Uncaught exceptions and out of memory, the worker exits right after
+    worker.on('error', (error) => {
+      console.error(`Export worker of job ${jobId} crashed:`, error);
+      outcome ??= { error: new Error(`Export worker crashed: ${error.message}`) };
+    });
+
+    // Settle only once the thread is gone, so the next job never runs next to a stopping one
+    worker.on('exit', (code) => {
+      removeCancelListener();
+      const settled = outcome ?? {
+        error: new Error(`Export worker stopped unexpectedly (exit code ${code})`),
+      };
+      if ('result' in settled) resolve(settled.result);
+      else reject(settled.error);
+    });
+  });
+}
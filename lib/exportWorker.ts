@@ -0,0 +1,65 @@
+import { parentPort, workerData } from 'worker_threads';
+import {
+  ExportCancelledError,
+  requestCancel,
+  subscribeProgress,
+  type ProgressEvent,
+} from '@/lib/progressStore';
+import { runPdfExport, type Book, type ExportOptions, type ExportResult } from '@/lib/pdfExport';
+
+// Entry point of the export worker (see exportRunner), one worker thread per export.
+// The whole pipeline runs here, SQLite reads, HTML rewriting, Puppeteer and pdf-lib,
+// so a long export does not block the event loop of the Next server.
+//
+// Protocol
+//   workerData                 ExportWorkerData, what to export
+//   parent -> worker           { type: 'cancel' }
+//   worker -> parent           { type: 'progress' }  every progress event of the job
+//                              { type: 'result' }    once, the exported file
+//                              { type: 'error' }     once, the export failed or was cancelled
+
+export type ExportWorkerData = {
+  jobId: string;
+  books: Book[];
+  options: ExportOptions;
+};
+
+export type ExportWorkerCommand = { type: 'cancel' };
+
+export type ExportWorkerMessage =
+  | { type: 'progress'; event: ProgressEvent }
+  | { type: 'result'; result: ExportResult }
+  | { type: 'error'; message: string; cancelled: boolean };
+
+async function run(port: NonNullable<typeof parentPort>, { jobId, books, options }: ExportWorkerData) {
+  const post = (message: ExportWorkerMessage, transfer: ArrayBuffer[] = []) => port.postMessage(message, transfer);
+
+  port.on('message', (command: ExportWorkerCommand) => {
+    if (command.type === 'cancel') requestCancel(jobId);
+  });
+  const unsubscribe = subscribeProgress(jobId, (event) => post({ type: 'progress', event }));
+
+  try {
+    const result = await runPdfExport(jobId, books, options);
+
+    // Hand the bytes over instead of copying them, unless they share their buffer
+    const { data } = result;
+    const ownsBuffer = data.byteOffset === 0 && data.byteLength === data.buffer.byteLength;
+    const transfer = ownsBuffer && data.buffer instanceof ArrayBuffer ? [data.buffer] : [];
+    post({ type: 'result', result }, transfer);
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: error instanceof ExportCancelledError,
+    });
+  } finally {
+    unsubscribe();
+    // Nothing else may keep the thread alive, the parent waits for the exit
+    port.close();
+  }
+}
+
+if (parentPort) {
+  void run(parentPort, workerData as ExportWorkerData);
+}
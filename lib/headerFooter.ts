@@ -0,0 +1,146 @@
+import { PDFPage, rgb } from 'pdf-lib';
+import { drawText, type PdfTextFont } from '@/lib/pdfFonts';
+
+// Header and footer templates for the exported PDF pages.
+// Each row has a left, center and right slot. Slots are plain text with placeholders:
+//   {{bookTitle}} {{chapterTitle}} {{printedPage}} {{pdfPage}} {{totalPages}} {{date}}
+// With mirrorEvenPages the left and right slots swap on even pages (duplex printing).
+
+export type HeaderFooterSlots = {
+  left: string;
+  center: string;
+  right: string;
+};
+
+export type HeaderFooterConfig = {
+  header: HeaderFooterSlots;
+  footer: HeaderFooterSlots;
+  mirrorEvenPages: boolean;
+};
+
+// Values for the placeholders of one page
+export type HeaderFooterPageInfo = {
+  bookTitle: string;
+  chapterTitle: string;
+  printedPage: number | null;
+  pdfPage: number;
+  totalPages: number;
+  date: string;
+};
+
+// Same as before templates existed: printed page number bottom right
+export const DEFAULT_HEADER_FOOTER: HeaderFooterConfig = {
+  header: { left: '', center: '', right: '' },
+  footer: { left: '', center: '', right: '{{printedPage}}' },
+  mirrorEvenPages: false,
+};
+
+const FONT_SIZE = 10;
+const SIDE_MARGIN = 24;     // distance from the left / right edge
+const EDGE_MARGIN = 24;     // distance of the text from the top / bottom edge
+const MAX_TEMPLATE_LENGTH = 200;
+
+/**
+ * Read the templates from the export parameters (headerLeft ... footerRight, mirrorHeaderFooter).
+ * Missing slots keep their default.
+ */
+export function parseHeaderFooterConfig(params: URLSearchParams): HeaderFooterConfig {
+  const slot = (name: string, fallback: string) => {
+    const value = params.get(name);
+    return value === null ? fallback : value.slice(0, MAX_TEMPLATE_LENGTH);
+  };
+  const { header, footer } = DEFAULT_HEADER_FOOTER;
+
+  return {
+    header: {
+      left: slot('headerLeft', header.left),
+      center: slot('headerCenter', header.center),
+      right: slot('headerRight', header.right),
+    },
+    footer: {
+      left: slot('footerLeft', footer.left),
+      center: slot('footerCenter', footer.center),
+      right: slot('footerRight', footer.right),
+    },
+    mirrorEvenPages: params.get('mirrorHeaderFooter') === 'true',
+  };
+}
+
+export function hasHeaderFooter(config: HeaderFooterConfig): boolean {
+  return [config.header, config.footer].some((row) =>
+    [row.left, row.center, row.right].some((slot) => slot.trim() !== '')
+  );
+}
+
+function fillTemplate(template: string, info: HeaderFooterPageInfo): string {
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+      switch (key) {
+        case 'bookTitle': return info.bookTitle;
+        case 'chapterTitle': return info.chapterTitle;
+        case 'printedPage': return info.printedPage != null ? String(info.printedPage) : '';
+        case 'pdfPage': return String(info.pdfPage);
+        case 'totalPages': return String(info.totalPages);
+        case 'date': return info.date;
+        default: return match;
+      }
+    })
+    .normalize('NFC')
+    .trim();
+}
+
+// Shorten with an ellipsis until the text fits
+function fitText(text: string, font: PdfTextFont, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, FONT_SIZE) <= maxWidth) return text;
+
+  let end = text.length;
+  while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end).trimEnd()}…`, FONT_SIZE) > maxWidth) {
+    end--;
+  }
+  return end > 0 ? `${text.slice(0, end).trimEnd()}…` : '';
+}
+
+async function drawRow(page: PDFPage, slots: HeaderFooterSlots, y: number, font: PdfTextFont, info: HeaderFooterPageInfo) {
+  const texts = {
+    left: fillTemplate(slots.left, info),
+    center: fillTemplate(slots.center, info),
+    right: fillTemplate(slots.right, info),
+  };
+  const used = Object.values(texts).filter(Boolean).length;
+  if (used === 0) return;
+
+  const width = page.getWidth();
+  const available = width - 2 * SIDE_MARGIN;
+  const slotWidth = used === 1 ? available : available / 3 - 8;
+
+  for (const position of ['left', 'center', 'right'] as const) {
+    const text = fitText(texts[position], font, slotWidth);
+    if (!text) continue;
+
+    const textWidth = font.widthOfTextAtSize(text, FONT_SIZE);
+    const x = position === 'left'
+      ? SIDE_MARGIN
+      : position === 'right'
+        ? width - SIDE_MARGIN - textWidth
+        : (width - textWidth) / 2;
+
+    await drawText(page, text, { x, y, size: FONT_SIZE, font, color: rgb(0, 0, 0) });
+  }
+}
+
+/**
+ * Draw header and footer of one page.
+ */
+export async function drawHeaderFooter(
+  page: PDFPage,
+  config: HeaderFooterConfig,
+  font: PdfTextFont,
+  info: HeaderFooterPageInfo
+) {
+  const mirror = config.mirrorEvenPages && info.pdfPage % 2 === 0;
+  const orient = (slots: HeaderFooterSlots): HeaderFooterSlots =>
+    mirror ? { left: slots.right, center: slots.center, right: slots.left } : slots;
+
+  await drawRow(page, orient(config.header), page.getHeight() - EDGE_MARGIN - FONT_SIZE, font, info);
+  await drawRow(page, orient(config.footer), EDGE_MARGIN, font, info);
+}
@@ -0,0 +1,278 @@
+import type { ZipEntry } from '@/lib/zip';
+import { ExportResources, buildTocList, escapeXml } from '@/lib/exportResources';
+import { getExportLabels, type ExportLabels } from '@/lib/exportLabels';
+import type { Book, MergedTOCEntry } from '@/lib/pdfExport';
+
+// Offline HTML site export
+// Every processed HTML page from buildTopicPage becomes a static file with previous/next
+// links, index.html lists the table of contents and has a small full-text search.
+// Only relative links and plain scripts (no fetch) are used, so the site works from file://.
+//   index.html, site.css, site.js, search-index.js
+//   pages/*.html, styles/*.css, images/*, fonts/*
+
+export type HtmlSiteContent = {
+  books: Book[];                        // toggled books, in export order
+  pages: string[];                      // HTML from buildTopicPage
+  printedPageNumbers: (number | null)[];
+  tocData: MergedTOCEntry[][];          // page numbers are 1-based indices into pages
+};
+
+type SearchEntry = {
+  href: string;   // relative to index.html
+  title: string;
+  text: string;
+};
+
+const SITE_CSS = `.site-nav {
+  display: flex !important;
+  align-items: center;
+  gap: 1em;
+  margin: 0 0 1.5em 0;
+  padding: 0.5em 0;
+  border-bottom: 1px solid #ccc;
+  font: 14px/1.4 system-ui, sans-serif !important;
+}
+.site-nav.site-nav-bottom {
+  margin: 1.5em 0 0 0;
+  border-bottom: none;
+  border-top: 1px solid #ccc;
+}
+.site-nav a { color: #1d4ed8 !important; text-decoration: none; }
+.site-nav a:hover { text-decoration: underline; }
+.site-nav .site-nav-title { flex: 1; text-align: center; color: #555; }
+.site-nav .site-nav-disabled { visibility: hidden; }
+
+body.site-index {
+  max-width: 60em;
+  margin: 0 auto;
+  padding: 2em;
+  font: 16px/1.5 system-ui, sans-serif;
+}
+body.site-index ol { padding-left: 1.5em; }
+#site-search { width: 100%; padding: 0.5em; font-size: 1em; box-sizing: border-box; }
+#site-search-results { list-style: none; padding: 0; }
+#site-search-results li { margin: 0.75em 0; }
+#site-search-results .site-search-snippet { color: #555; font-size: 0.9em; }
+`;
+
+// Search: every word must occur in the page, case and accents are ignored.
+// Arrow keys move to the previous / next page.
+const SITE_JS = `(function () {
+  function normalize(text) {
+    return text.normalize('NFD').replace(/[\\u0300-\\u036f]/g, '').toLowerCase();
+  }
+
+  document.addEventListener('keydown', function (event) {
+    if (event.target && /^(INPUT|TEXTAREA)$/.test(event.target.tagName)) return;
+    var rel = event.key === 'ArrowLeft' ? 'prev' : event.key === 'ArrowRight' ? 'next' : null;
+    if (!rel) return;
+    var link = document.querySelector('.site-nav a[rel="' + rel + '"]');
+    if (link) window.location.href = link.getAttribute('href');
+  });
+
+  var input = document.getElementById('site-search');
+  var results = document.getElementById('site-search-results');
+  var index = window.SITE_SEARCH_INDEX;
+  if (!input || !results || !index) return;
+
+  var normalized = index.map(function (entry) { return normalize(entry.text); });
+
+  input.addEventListener('input', function () {
+    var words = normalize(input.value).split(/\\s+/).filter(Boolean);
+    results.innerHTML = '';
+    if (words.length === 0) return;
+
+    var hits = 0;
+    for (var i = 0; i < index.length && hits < 50; i++) {
+      var text = normalized[i];
+      if (!words.every(function (word) { return text.indexOf(word) !== -1; })) continue;
+      hits++;
+
+      var pos = text.indexOf(words[0]);
+      var start = Math.max(0, pos - 60);
+      var snippet = (start > 0 ? '… ' : '') + index[i].text.slice(start, pos + 120) + ' …';
+
+      var item = document.createElement('li');
+      var link = document.createElement('a');
+      link.href = index[i].href;
+      link.textContent = index[i].title;
+      var span = document.createElement('div');
+      span.className = 'site-search-snippet';
+      span.textContent = snippet;
+      item.appendChild(link);
+      item.appendChild(span);
+      results.appendChild(item);
+    }
+
+    if (hits === 0) {
+      var empty = document.createElement('li');
+      empty.textContent = input.getAttribute('data-no-results') || '';
+      results.appendChild(empty);
+    }
+  });
+})();
+`;
+
+function pageFileName(pageNumber: number): string {
+  return `page-${String(pageNumber).padStart(4, '0')}.html`;
+}
+
+// Visible text of a page for the search index
+function extractText(html: string): string {
+  return html
+    .replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<(div|span|table)\b[^>]*class="(navigationWrapper|pageNavigationTable|navigationMiniToc|pageInfo)"[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Title of every page: the last TOC entry starting on or before it,
+ * otherwise the book title with the printed page number.
+ */
+function getPageTitles(content: HtmlSiteContent, pageLabel: string): string[] {
+  const starts = content.tocData
+    .flat()
+    .map(([page, , label]) => ({ page, label }))
+    .sort((a, b) => a.page - b.page);
+  const fallback = String(content.books[0]?.Titel || content.books[0]?.CourseName || '');
+
+  const titles: string[] = [];
+  let next = 0;
+  let current: string | null = null;
+  for (let i = 1; i <= content.pages.length; i++) {
+    while (next < starts.length && starts[next].page <= i) {
+      current = starts[next].label;
+      next++;
+    }
+    const printed = content.printedPageNumbers[i - 1];
+    const pageSuffix = printed != null ? ` – ${pageLabel} ${printed}` : '';
+    titles.push(`${current ?? fallback}${pageSuffix}`);
+  }
+  return titles;
+}
+
+function buildNavBar(
+  pageNumber: number,
+  pageCount: number,
+  title: string,
+  labels: ExportLabels,
+  className: string
+): string {
+  const prev = pageNumber > 1
+    ? `<a href="${pageFileName(pageNumber - 1)}" rel="prev">‹ ${escapeXml(labels.previous)}</a>`
+    : `<span class="site-nav-disabled">‹ ${escapeXml(labels.previous)}</span>`;
+  const next = pageNumber < pageCount
+    ? `<a href="${pageFileName(pageNumber + 1)}" rel="next">${escapeXml(labels.next)} ›</a>`
+    : `<span class="site-nav-disabled">${escapeXml(labels.next)} ›</span>`;
+
+  return `<nav class="${className}">${prev}<a href="../index.html">${escapeXml(labels.contents)}</a>` +
+    `<span class="site-nav-title">${escapeXml(title)}</span>${next}</nav>`;
+}
+
+/**
+ * Turn one processed page into a standalone file:
+ * inline styles become linked stylesheets, data: images become files, navigation is added.
+ */
+function toSitePage(html: string, title: string, topNav: string, bottomNav: string, resources: ExportResources): string {
+  const stylesheetLinks: string[] = [];
+
+  let page = html.replace(/<style\b[^>]*>([\s\S]*?)<\/style>/gi, (_match, css: string) => {
+    const item = resources.addStylesheet(css);
+    stylesheetLinks.push(`<link rel="stylesheet" href="../${item.href}">`);
+    return '';
+  });
+  page = resources.rewriteImageSources(page);
+
+  page = page.replace(
+    /<head\b[^>]*>/i,
+    (head) => `${head}\n<meta charset="utf-8">\n<title>${escapeXml(title)}</title>`
+  );
+  page = page.replace(
+    /<\/head>/i,
+    `${stylesheetLinks.join('\n')}\n<link rel="stylesheet" href="../site.css">\n<script src="../site.js" defer></script>\n</head>`
+  );
+  page = page.replace(/<body\b[^>]*>/i, (body) => `${body}\n${topNav}`);
+  page = page.replace(/<\/body>/i, `${bottomNav}\n</body>`);
+
+  return `<!DOCTYPE html>\n${page.trim()}\n`;
+}
+
+function buildIndexPage(content: HtmlSiteContent, title: string, labels: ExportLabels): string {
+  const bookSections = content.books.map((book, bookIndex) => {
+    const entries = content.tocData[bookIndex] ?? [];
+    const firstPage = entries[0]?.[0] ?? 1;
+    const bookTitle = escapeXml(String(book.Titel || book.CourseName || `Book ${bookIndex + 1}`));
+    return `<section>\n<h2><a href="pages/${pageFileName(firstPage)}">${bookTitle}</a></h2>\n` +
+      `${buildTocList(entries, (page) => `pages/${pageFileName(page)}`)}\n</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="${escapeXml((content.books[0]?.Lang || 'de').trim().toLowerCase())}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" href="site.css">
+<script src="search-index.js" defer></script>
+<script src="site.js" defer></script>
+</head>
+<body class="site-index">
+<h1>${escapeXml(title)}</h1>
+<input id="site-search" type="search" placeholder="${escapeXml(labels.search)}" aria-label="${escapeXml(labels.search)}" data-no-results="${escapeXml(labels.noResults)}">
+<ul id="site-search-results"></ul>
+<h2>${escapeXml(labels.contents)}</h2>
+${bookSections.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Build the files of the offline site, paths are relative to the site root.
+ */
+export function createHtmlSite(content: HtmlSiteContent): ZipEntry[] {
+  const resources = new ExportResources();
+  const labels = getExportLabels(content.books[0]?.Lang);
+  const title = content.books.map((book) => String(book.Titel || book.CourseName)).join(' / ') || 'Beook2PDF';
+  const pageTitles = getPageTitles(content, labels.page);
+  const pageCount = content.pages.length;
+
+  const entries: ZipEntry[] = [];
+  const searchIndex: SearchEntry[] = [];
+
+  content.pages.forEach((html, index) => {
+    const pageNumber = index + 1;
+    const fileName = pageFileName(pageNumber);
+    const pageTitle = pageTitles[index];
+
+    const page = toSitePage(
+      html,
+      pageTitle,
+      buildNavBar(pageNumber, pageCount, pageTitle, labels, 'site-nav'),
+      buildNavBar(pageNumber, pageCount, pageTitle, labels, 'site-nav site-nav-bottom'),
+      resources
+    );
+    entries.push({ name: `pages/${fileName}`, data: new Uint8Array(Buffer.from(page, 'utf-8')) });
+    searchIndex.push({ href: `pages/${fileName}`, title: pageTitle, text: extractText(html) });
+  });
+
+  // A script instead of JSON: browsers do not allow fetch() on file:// pages
+  const searchIndexJs = `window.SITE_SEARCH_INDEX = ${JSON.stringify(searchIndex).replace(/</g, '\\u003c')};\n`;
+
+  return [
+    { name: 'index.html', data: new Uint8Array(Buffer.from(buildIndexPage(content, title, labels), 'utf-8')) },
+    { name: 'site.css', data: new Uint8Array(Buffer.from(SITE_CSS, 'utf-8')) },
+    { name: 'site.js', data: new Uint8Array(Buffer.from(SITE_JS, 'utf-8')) },
+    { name: 'search-index.js', data: new Uint8Array(Buffer.from(searchIndexJs, 'utf-8')) },
+    ...entries,
+    ...resources.items.map((item) => ({ name: item.href, data: item.data })),
+  ];
+}
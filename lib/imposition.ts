@@ -0,0 +1,120 @@
+import { PDFDocument, PDFEmbeddedPage, PDFPage } from 'pdf-lib';
+import { deduplicateFontsAndImages } from '@/lib/pdfDedupe';
+
+// Imposition: lay out the finished reading PDF on print sheets.
+// The sheets keep the paper size of the reading PDF:
+//   2up:     landscape sheet, two pages side by side
+//   4up:     portrait sheet, 2 x 2 pages
+//   booklet: landscape sheet, saddle-stitch order (print duplex, flip on short edge, fold, staple)
+// Outline and links are not carried over, the result is meant for printing only.
+
+export type ImpositionMode = 'none' | '2up' | '4up' | 'booklet';
+
+type Cell = { x: number; y: number; width: number; height: number };
+
+// Gap between the pages of a sheet (pt)
+const CELL_GAP = 6;
+
+export function parseImpositionMode(value: string | null): ImpositionMode {
+  return value === '2up' || value === '4up' || value === 'booklet' ? value : 'none';
+}
+
+/**
+ * Page order of a saddle-stitch booklet, pageCount must be a multiple of 4.
+ * Every sheet side holds two pages [left, right], sides alternate front / back.
+ */
+function getBookletOrder(pageCount: number): [number, number][] {
+  const sides: [number, number][] = [];
+  for (let sheet = 0; sheet < pageCount / 4; sheet++) {
+    sides.push([pageCount - 1 - 2 * sheet, 2 * sheet]);          // front
+    sides.push([2 * sheet + 1, pageCount - 2 - 2 * sheet]);      // back
+  }
+  return sides;
+}
+
+function getCells(mode: Exclude<ImpositionMode, 'none'>, sheetWidth: number, sheetHeight: number): Cell[] {
+  if (mode === '4up') {
+    const width = (sheetWidth - CELL_GAP) / 2;
+    const height = (sheetHeight - CELL_GAP) / 2;
+    // left to right, top to bottom
+    return [
+      { x: 0, y: height + CELL_GAP, width, height },
+      { x: width + CELL_GAP, y: height + CELL_GAP, width, height },
+      { x: 0, y: 0, width, height },
+      { x: width + CELL_GAP, y: 0, width, height },
+    ];
+  }
+
+  const width = (sheetWidth - CELL_GAP) / 2;
+  return [
+    { x: 0, y: 0, width, height: sheetHeight },
+    { x: width + CELL_GAP, y: 0, width, height: sheetHeight },
+  ];
+}
+
+function drawInCell(sheet: PDFPage, page: PDFEmbeddedPage, cell: Cell) {
+  const scale = Math.min(cell.width / page.width, cell.height / page.height);
+  const width = page.width * scale;
+  const height = page.height * scale;
+
+  sheet.drawPage(page, {
+    x: cell.x + (cell.width - width) / 2,
+    y: cell.y + (cell.height - height) / 2,
+    width,
+    height,
+  });
+}
+
+/**
+ * Build the print PDF for the given reading PDF.
+ */
+export async function createImposedPdf(
+  readingPdf: Uint8Array,
+  mode: Exclude<ImpositionMode, 'none'>
+): Promise<Uint8Array> {
+  const srcDoc = await PDFDocument.load(readingPdf);
+  const srcCount = srcDoc.getPageCount();
+
+  const printDoc = await PDFDocument.create();
+  const title = srcDoc.getTitle();
+  if (title) printDoc.setTitle(title);
+
+  // Pages without content (duplex blanks) cannot be embedded, they stay empty cells
+  const withContent = srcDoc.getPageIndices().filter((i) => srcDoc.getPage(i).node.Contents() != null);
+  const embeddedPages = withContent.length > 0 ? await printDoc.embedPdf(srcDoc, withContent) : [];
+  const embedded = new Map<number, PDFEmbeddedPage>();
+  withContent.forEach((pageIndex, i) => embedded.set(pageIndex, embeddedPages[i]));
+
+  // Sheet size from the first page: portrait for 4up, landscape for 2up and booklet
+  const first = srcDoc.getPages()[0]?.getSize() ?? { width: 595.28, height: 841.89 };
+  const portrait = { width: Math.min(first.width, first.height), height: Math.max(first.width, first.height) };
+  const sheetSize = mode === '4up'
+    ? portrait
+    : { width: portrait.height, height: portrait.width };
+  const cells = getCells(mode, sheetSize.width, sheetSize.height);
+
+  // Indices into embedded per sheet side, null = blank
+  let sides: (number | null)[][];
+  if (mode === 'booklet') {
+    const padded = Math.max(4, Math.ceil(srcCount / 4) * 4);
+    sides = getBookletOrder(padded).map((side) => side.map((i) => (i < srcCount ? i : null)));
+  } else {
+    sides = [];
+    for (let i = 0; i < srcCount; i += cells.length) {
+      sides.push(cells.map((_, cellIdx) => (i + cellIdx < srcCount ? i + cellIdx : null)));
+    }
+  }
+
+  for (const side of sides) {
+    const sheet = printDoc.addPage([sheetSize.width, sheetSize.height]);
+    side.forEach((pageIndex, cellIdx) => {
+      const page = pageIndex != null ? embedded.get(pageIndex) : undefined;
+      if (page) drawInCell(sheet, page, cells[cellIdx]);
+    });
+  }
+
+  // Every embedded page brings its own copy of the fonts and images
+  await printDoc.flush();
+  deduplicateFontsAndImages(printDoc);
+  return await printDoc.save({ useObjectStreams: true });
+}
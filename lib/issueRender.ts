@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFString } from 'pdf-lib';
+import type { RenderedPage } from '@/lib/pdfExport';
+import type { RenderedLink } from '@/lib/pdfLinks';
+
+// Whole-issue rendering: instead of one Puppeteer document (and one page.pdf) per topic page,
+// the topic pages of an issue go into one document, every topic in a <section> that starts
+// on a new page, and the issue is printed with a single page.pdf call.
+// Content then flows over print pages like in split mode instead of shrinking to one page.
+//
+// Where every topic starts is found through marker links: Chrome writes every <a href> with
+// an absolute URL as a link annotation, so a marker at the top of each section tells the pdf
+// page it ended up on. The same annotations give the rectangles of the book links.
+
+// Links are made absolute with this origin, it never resolves
+export const ISSUE_LINK_ORIGIN = 'https://beook2pdf.invalid';
+const TOPIC_MARKER_PATH = '/beook2pdf-topic/';
+
+// Upper bound for one document, Chrome keeps the whole layout in memory while printing
+export const MAX_TOPICS_PER_DOCUMENT = 100;
+
+type TopicPage = {
+  head: string;
+  bodyAttributes: string;
+  body: string;
+};
+
+// Page template of buildTopicPage: <html><head>…</head><body …>…</body></html>
+function parseTopicPage(html: string): TopicPage | null {
+  const match = /<head>([\s\S]*?)<\/head>\s*<body\b([^>]*)>([\s\S]*)<\/body>\s*<\/html>\s*$/i.exec(html);
+  if (!match) return null;
+  return { head: match[1], bodyAttributes: match[2], body: match[3] };
+}
+
+// The head without the per-page meta tags, equal for all pages that can share a document
+function getSharedHead(head: string): string {
+  return head.replace(/<meta name="beook2pdf-(resource|topic)"[^>]*>/g, '');
+}
+
+/**
+ * Group the pages (indices into htmlPages, in order) that can be rendered as one document:
+ * consecutive pages of the same issue with the same stylesheets.
+ * Pages that do not follow the page template get a group of their own.
+ */
+export function groupIssuePages(htmlPages: string[], indices: number[]): number[][] {
+  const groups: number[][] = [];
+  let current: number[] = [];
+  let currentKey: string | null = null;
+
+  for (const index of indices) {
+    const page = parseTopicPage(htmlPages[index]);
+    // The head holds the issue id and all CSS of the page
+    const key = page ? crypto.createHash('sha1').update(getSharedHead(page.head)).digest('hex') : null;
+
+    const fits = key != null && key === currentKey && index === current[current.length - 1] + 1;
+    if (!fits || current.length >= MAX_TOPICS_PER_DOCUMENT) {
+      if (current.length > 0) groups.push(current);
+      current = [];
+    }
+    current.push(index);
+    currentKey = key;
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+// body selectors of the book CSS apply to the topic sections instead
+function rewriteBodySelectors(css: string): string {
+  return css.replace(/(^|[\s,>}])body(?=[\s.#:,{>[])/g, '$1.beook2pdf-topic');
+}
+
+function toSectionAttributes(bodyAttributes: string): string {
+  const classMatch = /\sclass\s*=\s*(["'])(.*?)\1/i.exec(bodyAttributes);
+  if (!classMatch) return ` class="beook2pdf-topic"${bodyAttributes}`;
+  return bodyAttributes.replace(classMatch[0], ` class="beook2pdf-topic ${classMatch[2]}"`);
+}
+
+const ISSUE_DOCUMENT_CSS = `
+  /* beook2pdf whole-issue document:
+     - every topic on new pages, in the place of the body of its page
+     - the document itself has no margins, the topics keep theirs
+  */
+  @page { margin: 0; }
+  html { padding-top: 0 !important; padding-bottom: 0 !important; }
+  body { margin: 0 !important; padding: 0 !important; }
+  .beook2pdf-topic { display: block; }
+  .beook2pdf-topic + .beook2pdf-topic { break-before: page; }
+  .beook2pdf-topic-marker,
+  .beook2pdf-media-marker { float: left; width: 1px; height: 1px; }
+`;
+
+/**
+ * One HTML document for the given pages, or null if a page does not follow the page template.
+ */
+export function buildIssueDocument(htmlPages: string[], indices: number[]): string | null {
+  const pages = indices.map((index) => parseTopicPage(htmlPages[index]));
+  if (pages.length === 0 || pages.some((page) => !page)) return null;
+
+  const sections = (pages as TopicPage[]).map((page, n) => `
+    <section${toSectionAttributes(page.bodyAttributes)}>
+      <a class="beook2pdf-topic-marker" href="${ISSUE_LINK_ORIGIN}${TOPIC_MARKER_PATH}${n}"></a>
+      ${page.body}
+    </section>`);
+
+  return `
+    <html>
+      <head>
+        ${rewriteBodySelectors(getSharedHead(pages[0]!.head))}
+        <style>${ISSUE_DOCUMENT_CSS}</style>
+      </head>
+      <body>${sections.join('\n')}
+      </body>
+    </html>
+  `;
+}
+
+type AnnotationLink = {
+  pageIndex: number;
+  uri: string;
+  rect: { x: number; y: number; width: number; height: number };
+};
+
+// URI link annotations of every page, rectangles in CSS px from the top left of the page
+function readLinkAnnotations(pdfDoc: PDFDocument, layoutWidth: number): AnnotationLink[] {
+  const links: AnnotationLink[] = [];
+
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    if (!annots) return;
+
+    const { width, height } = page.getSize();
+    const pxPerPt = layoutWidth / width;
+
+    for (let i = 0; i < annots.size(); i++) {
+      const annot = annots.lookupMaybe(i, PDFDict);
+      const action = annot?.lookupMaybe(PDFName.of('A'), PDFDict);
+      const uri = action?.lookupMaybe(PDFName.of('URI'), PDFString, PDFHexString)?.decodeText();
+      const rect = annot?.lookupMaybe(PDFName.of('Rect'), PDFArray)?.asArray();
+      if (!uri || !rect || rect.length !== 4) continue;
+
+      const [x1, y1, x2, y2] = rect.map((value) => (value instanceof PDFNumber ? value.asNumber() : 0));
+      links.push({
+        pageIndex,
+        uri,
+        rect: {
+          x: Math.min(x1, x2) * pxPerPt,
+          y: (height - Math.max(y1, y2)) * pxPerPt,
+          width: Math.abs(x2 - x1) * pxPerPt,
+          height: Math.abs(y2 - y1) * pxPerPt,
+        },
+      });
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Split the printed issue into one RenderedPage per topic.
+ * Pages are stacked in the coordinates of the content (page k starts at k times the page
+ * height), so placing and slicing work like for a page rendered on its own.
+ * Returns null when the topic markers are missing.
+ */
+export async function splitIssuePdf(
+  pdf: Uint8Array,
+  topicCount: number,
+  layoutWidth: number
+): Promise<RenderedPage[] | null> {
+  const srcDoc = await PDFDocument.load(pdf);
+  const pageCount = srcDoc.getPageCount();
+  if (pageCount === 0) return null;
+
+  const links = readLinkAnnotations(srcDoc, layoutWidth);
+
+  // First page of every topic, a single topic needs no markers
+  const starts: number[] = new Array(topicCount).fill(-1);
+  starts[0] = 0;
+  for (const link of links) {
+    if (!link.uri.startsWith(`${ISSUE_LINK_ORIGIN}${TOPIC_MARKER_PATH}`)) continue;
+    const topic = Number(link.uri.slice(ISSUE_LINK_ORIGIN.length + TOPIC_MARKER_PATH.length));
+    if (topic > 0 && topic < topicCount && starts[topic] === -1) starts[topic] = link.pageIndex;
+  }
+  if (starts.some((start, n) => start < 0 || (n > 0 && start <= starts[n - 1]))) {
+    console.warn('Issue render: topic markers missing or out of order', starts);
+    return null;
+  }
+
+  const { width, height } = srcDoc.getPage(0).getSize();
+  const pageHeightPx = height * (layoutWidth / width);
+  const rendered: RenderedPage[] = [];
+
+  for (let topic = 0; topic < topicCount; topic++) {
+    const first = starts[topic];
+    const end = topic + 1 < topicCount ? starts[topic + 1] : pageCount;
+    const pageIndices = Array.from({ length: end - first }, (_, i) => first + i);
+
+    const topicDoc = await PDFDocument.create();
+    for (const page of await topicDoc.copyPages(srcDoc, pageIndices)) {
+      // Annotations get lost on embedding anyway, the links are passed on below
+      page.node.delete(PDFName.of('Annots'));
+      topicDoc.addPage(page);
+    }
+
+    const topicLinks = new Map<string, RenderedLink>();
+    for (const link of links) {
+      if (link.pageIndex < first || link.pageIndex >= end) continue;
+
+      let href = link.uri;
+      if (href.startsWith(ISSUE_LINK_ORIGIN)) {
+        href = href.slice(ISSUE_LINK_ORIGIN.length);
+        // markers and links inside the same page
+        if (href.startsWith(TOPIC_MARKER_PATH) || href === '/' || href.startsWith('/#')) continue;
+      }
+
+      const entry = topicLinks.get(href) ?? { href, rects: [] };
+      entry.rects.push({ ...link.rect, y: link.rect.y + (link.pageIndex - first) * pageHeightPx });
+      topicLinks.set(href, entry);
+    }
+
+    rendered.push({
+      pdf: Buffer.from(await topicDoc.save()),
+      width: layoutWidth,
+      height: pageIndices.length * pageHeightPx,
+      breakPoints: pageIndices.slice(1).map((_, i) => (i + 1) * pageHeightPx),
+      links: [...topicLinks.values()],
+    });
+  }
+
+  return rendered;
+}
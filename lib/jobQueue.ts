@@ -0,0 +1,221 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getConfigDir } from '@/lib/config';
+import { requestCancel, setProgressStatus, ExportCancelledError } from '@/lib/progressStore';
+import { parseExportOptions, type Book, type ExportOptions } from '@/lib/pdfExport';
+import { runExportInWorker } from '@/lib/exportRunner';
+
+// Background export jobs
+// Every job is a JSON file in <config dir>/jobs, the finished PDF (or ZIP) is written next to it.
+// Jobs run one after another, so a long export survives a browser refresh or an
+// Electron window reload. Jobs that were running when the app quit are queued again.
+// Every job runs in a worker thread of its own, the server keeps answering meanwhile.
+
+export type ExportJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type ExportJob = {
+  id: string;
+  status: ExportJobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  books: Book[];
+  options: ExportOptions;
+  error: string | null;
+  // set once the job is done
+  resultFileName?: string;
+  resultContentType?: string;
+};
+
+// Finished jobs (and their PDFs) are removed after this long
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+let initialized = false;
+let running = false;
+
+function getJobsDir(): string {
+  const dir = path.join(getConfigDir(), 'jobs');
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function getJobFile(id: string): string {
+  return path.join(getJobsDir(), `${id}.json`);
+}
+
+export function getJobResultPath(job: ExportJob): string {
+  // Jobs from before split exports have no result file name, they always produced a PDF
+  const extension = path.extname(job.resultFileName ?? 'book.pdf');
+  return path.join(getJobsDir(), `${job.id}${extension}`);
+}
+
+// Job ids end up in file names, only accept what createJob generates
+function isValidJobId(id: string): boolean {
+  return /^[0-9a-f-]{36}$/i.test(id);
+}
+
+function writeJob(job: ExportJob) {
+  // Write to a temp file first so a crash never leaves a half-written job behind
+  const file = getJobFile(job.id);
+  const tmpFile = `${file}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(job, null, 2), 'utf-8');
+  fs.renameSync(tmpFile, file);
+}
+
+function readJob(id: string): ExportJob | null {
+  try {
+    const file = getJobFile(id);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as ExportJob;
+  } catch (error) {
+    console.error(`Error reading export job ${id}:`, error);
+    return null;
+  }
+}
+
+function listJobs(): ExportJob[] {
+  const jobs: ExportJob[] = [];
+  for (const name of fs.readdirSync(getJobsDir())) {
+    if (!name.endsWith('.json')) continue;
+    const job = readJob(path.basename(name, '.json'));
+    if (job) jobs.push(job);
+  }
+  return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+function updateJob(id: string, patch: Partial<ExportJob>): ExportJob | null {
+  const job = readJob(id);
+  if (!job) return null;
+  const updated = { ...job, ...patch };
+  writeJob(updated);
+  return updated;
+}
+
+function deleteJob(job: ExportJob) {
+  for (const file of [getJobFile(job.id), getJobResultPath(job)]) {
+    try {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    } catch (error) {
+      console.warn(`Could not remove ${file}:`, error);
+    }
+  }
+}
+
+// Runs once per server process: requeue interrupted jobs, drop expired ones
+function init() {
+  if (initialized) return;
+  initialized = true;
+
+  const now = Date.now();
+  for (const job of listJobs()) {
+    if (job.status === 'running') {
+      console.log(`Requeueing interrupted export job ${job.id}`);
+      updateJob(job.id, { status: 'queued', startedAt: null });
+      setProgressStatus(job.id, 'queued');
+    } else if (job.status === 'queued') {
+      setProgressStatus(job.id, 'queued');
+    } else if (
+      job.finishedAt &&
+      now - Date.parse(job.finishedAt) > JOB_RETENTION_MS
+    ) {
+      deleteJob(job);
+    }
+  }
+
+  void processQueue();
+}
+
+async function processQueue() {
+  if (running) return;
+  running = true;
+
+  try {
+    let next: ExportJob | undefined;
+    while ((next = listJobs().find(job => job.status === 'queued'))) {
+      await runJob(next);
+    }
+  } finally {
+    running = false;
+  }
+}
+
+async function runJob(job: ExportJob) {
+  updateJob(job.id, { status: 'running', startedAt: new Date().toISOString() });
+
+  try {
+    // Jobs written by an older version may lack newer options, those get their defaults
+    const options = { ...parseExportOptions(new URLSearchParams()), ...job.options };
+    const result = await runExportInWorker(job.id, job.books, options);
+    const finished: Partial<ExportJob> = {
+      resultFileName: result.fileName,
+      resultContentType: result.contentType,
+    };
+    fs.writeFileSync(getJobResultPath({ ...job, ...finished }), result.data);
+    updateJob(job.id, { ...finished, status: 'done', finishedAt: new Date().toISOString() });
+    setProgressStatus(job.id, 'done');
+  } catch (error) {
+    if (error instanceof ExportCancelledError) {
+      console.log(`Export job ${job.id} cancelled`);
+      updateJob(job.id, { status: 'cancelled', finishedAt: new Date().toISOString() });
+      setProgressStatus(job.id, 'cancelled');
+      return;
+    }
+
+    console.error(`Export job ${job.id} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    updateJob(job.id, {
+      status: 'failed',
+      finishedAt: new Date().toISOString(),
+      error: message,
+    });
+    setProgressStatus(job.id, 'failed', message);
+  }
+}
+
+/**
+ * Queue a new export job. It starts as soon as all earlier jobs are finished.
+ */
+export function createJob(books: Book[], options: ExportOptions): ExportJob {
+  init();
+
+  const job: ExportJob = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    books,
+    options,
+    error: null,
+  };
+  writeJob(job);
+  setProgressStatus(job.id, 'queued');
+
+  void processQueue();
+  return job;
+}
+
+export function getJob(id: string): ExportJob | null {
+  if (!isValidJobId(id)) return null;
+  init();
+  return readJob(id);
+}
+
+/**
+ * Cancel a job. Queued jobs are dropped right away,
+ * running jobs stop at the next point where the pipeline can safely stop.
+ */
+export function cancelJob(id: string): ExportJob | null {
+  const job = getJob(id);
+  if (!job) return null;
+
+  if (job.status === 'queued') {
+    setProgressStatus(id, 'cancelled');
+    return updateJob(id, { status: 'cancelled', finishedAt: new Date().toISOString() });
+  }
+  if (job.status === 'running') {
+    requestCancel(id);
+  }
+  return job;
+}
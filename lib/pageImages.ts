@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+// Raster image processing for the PDF export, applied to the images of the rendered pages
+// (see processPage) and to the quiz and cover images before embedding:
+//   grayscale     ink saver print mode
+//   downsampling  no more pixels than the quality preset needs at the size the image is shown
+//   quality       JPEG / WebP recompression of the quality preset
+// SVG and animated GIF stay untouched, the page CSS takes care of those.
+
+export type ImageQuality = 'original' | 'screen' | 'ebook' | 'print';
+
+export type ImageQualityPreset = {
+  dpi: number;
+  quality: number;
+};
+
+// Along the lines of the Ghostscript PDFSETTINGS of the same names
+const IMAGE_QUALITY_PRESETS: Record<Exclude<ImageQuality, 'original'>, ImageQualityPreset> = {
+  screen: { dpi: 72, quality: 60 },
+  ebook: { dpi: 150, quality: 75 },
+  print: { dpi: 300, quality: 85 },
+};
+
+// Quality of re-encoded images when no preset is set (ink saver only)
+const DEFAULT_QUALITY = 90;
+
+export function parseImageQuality(value: string | null): ImageQuality {
+  return value === 'screen' || value === 'ebook' || value === 'print' ? value : 'original';
+}
+
+export function getImageQualityPreset(quality: ImageQuality): ImageQualityPreset | null {
+  return quality === 'original' ? null : IMAGE_QUALITY_PRESETS[quality];
+}
+
+export type ImageSize = {
+  width: number;
+  height: number;
+};
+
+export type ImageTransform = {
+  grayscale: boolean;
+  // largest size in pixels the image is needed at, null keeps the resolution
+  maxSize: ImageSize | null;
+  // JPEG / WebP quality, null re-encodes only when another step changes the image
+  quality: number | null;
+};
+
+export type TransformedImage = {
+  data: Buffer;
+  mimeType: string;
+};
+
+const TRANSFORMABLE_TYPES = new Set(['image/png', 'image/jpeg', 'image/jpg', 'image/webp']);
+
+export function hasImageTransform(transform: ImageTransform): boolean {
+  return transform.grayscale || transform.maxSize != null || transform.quality != null;
+}
+
+/**
+ * Apply the transform to one image. Returns the original image for types that are
+ * not transformed, when sharp cannot read the data, or when the result is not smaller
+ * and looks the same.
+ */
+export async function transformImage(
+  data: Buffer,
+  mimeType: string,
+  transform: ImageTransform
+): Promise<TransformedImage> {
+  const type = mimeType.toLowerCase();
+  if (!hasImageTransform(transform) || !TRANSFORMABLE_TYPES.has(type)) return { data, mimeType };
+
+  try {
+    // Chrome honours the EXIF orientation, the re-encoded image has no EXIF left
+    let image = sharp(data).rotate();
+    if (transform.maxSize) {
+      image = image.resize({
+        width: Math.max(1, Math.round(transform.maxSize.width)),
+        height: Math.max(1, Math.round(transform.maxSize.height)),
+        fit: 'inside',
+        withoutEnlargement: true,
+      });
+    }
+    if (transform.grayscale) image = image.grayscale();
+
+    // Keep the format, pdf-lib and Chrome both know these
+    const quality = transform.quality ?? DEFAULT_QUALITY;
+    let output: Buffer;
+    if (type === 'image/png') output = await image.png({ compressionLevel: 9 }).toBuffer();
+    else if (type === 'image/webp') output = await image.webp({ quality }).toBuffer();
+    else output = await image.jpeg({ quality, mozjpeg: true }).toBuffer();
+
+    // Re-encoding an image that needs no downsampling can make it bigger
+    if (!transform.grayscale && output.length >= data.length) return { data, mimeType };
+    return { data: output, mimeType };
+  } catch (err) {
+    console.warn(`Image could not be transformed (${mimeType}), keeping the original:`, err);
+    return { data, mimeType };
+  }
+}
+
+/**
+ * Transform images with the same settings, every distinct image (and size) only once until release().
+ * Counts the bytes before and after, for the savings shown after the export.
+ */
+export class ImageTransformer {
+  private cache = new Map<string, Promise<string>>();
+  originalBytes = 0;
+  transformedBytes = 0;
+
+  constructor(readonly transform: ImageTransform) {}
+
+  private async run(data: Buffer, mimeType: string, maxSize: ImageSize | null): Promise<TransformedImage> {
+    const result = await transformImage(data, mimeType, { ...this.transform, maxSize });
+    this.originalBytes += data.length;
+    this.transformedBytes += result.data.length;
+    return result;
+  }
+
+  /**
+   * Transform a data: URL, maxSize overrides the one of the transform (e.g. the size an image is shown at).
+   */
+  transformDataUrl(dataUrl: string, maxSize: ImageSize | null = this.transform.maxSize): Promise<string> {
+    const match = /^data:([^;,]+)(?:;[^,]*?)?;base64,([\s\S]*)$/.exec(dataUrl);
+    if (!match || !hasImageTransform({ ...this.transform, maxSize })) return Promise.resolve(dataUrl);
+
+    const [, mimeType, base64] = match;
+    const size = maxSize ? `${Math.round(maxSize.width)}x${Math.round(maxSize.height)}` : '';
+    const key = `${crypto.createHash('sha1').update(base64).digest('hex')}:${size}`;
+
+    // Pages are rendered in parallel, a pending result is shared as well
+    let transformed = this.cache.get(key);
+    if (!transformed) {
+      const data = Buffer.from(base64, 'base64');
+      transformed = this.run(data, mimeType, maxSize).then((result) =>
+        result.data === data ? dataUrl : `data:${result.mimeType};base64,${result.data.toString('base64')}`
+      );
+      this.cache.set(key, transformed);
+    }
+    return transformed;
+  }
+
+  async transformImage(image: TransformedImage): Promise<TransformedImage> {
+    if (!hasImageTransform(this.transform)) return image;
+    return this.run(image.data, image.mimeType, this.transform.maxSize);
+  }
+
+  /**
+   * Forget the transformed data: URLs, e.g. once the pages of an issue are rendered.
+   * The byte counts are kept.
+   */
+  release() {
+    this.cache.clear();
+  }
+}
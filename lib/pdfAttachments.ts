@@ -0,0 +1,158 @@
+import sqlite from 'better-sqlite3';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import { getResolvedPaths } from '@/lib/config';
+
+// Audio, video, PDFs and other ZILPRESOURCE entries the pages reference but cannot show on paper.
+// They are embedded as files (attachments panel of the viewer) and marked with a paperclip
+// annotation where the page references them (see pdfLinks).
+
+export type MediaAttachment = {
+  id: number;             // ZILPRESOURCE.Z_PK
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+};
+
+// Single files above this size are left out, the whole PDF is built in memory
+const MAX_ATTACHMENT_BYTES = 100 * 1024 * 1024;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+};
+
+// Types buildTopicPage already turns into page content
+function isPageContentType(mimeType: string): boolean {
+  return (
+    mimeType === 'text/html' ||
+    mimeType === 'text/css' ||
+    mimeType.startsWith('image/') ||
+    mimeType.startsWith('font/') ||
+    /^application\/(x-)?font/.test(mimeType) ||
+    mimeType === 'application/vnd.ms-opentype'
+  );
+}
+
+function getAttachmentName(row: Record<string, unknown>, id: number, mimeType: string): string {
+  // File name columns are not present in every Beook version
+  const stored = row['ZFILENAME'] ?? row['ZNAME'];
+  if (stored != null && String(stored).trim()) return String(stored).trim();
+
+  const extension = FILE_EXTENSIONS[mimeType] ?? mimeType.split('/')[1]?.replace(/[^a-z0-9]/gi, '') ?? 'bin';
+  return `resource-${id}.${extension || 'bin'}`;
+}
+
+/**
+ * Load the referenced resources that are media or documents (no HTML, CSS, images or fonts).
+ */
+export function loadMediaAttachments(ids: number[]): Map<number, MediaAttachment> {
+  const attachments = new Map<number, MediaAttachment>();
+  const uniqueIds = [...new Set(ids)].filter((id) => Number.isInteger(id) && id > 0);
+  if (uniqueIds.length === 0) return attachments;
+
+  let db: sqlite.Database | null = null;
+  try {
+    db = sqlite(getResolvedPaths().dbPath, { readonly: true });
+    // SELECT *: file name columns differ between Beook versions
+    const statement = db.prepare(`SELECT * FROM ZILPRESOURCE WHERE "Z_PK" = ?`);
+
+    for (const id of uniqueIds) {
+      const row = statement.get(id) as Record<string, unknown> | undefined;
+      const mimeType = String(row?.['ZMEDIATYPE'] ?? '').trim().toLowerCase();
+      if (!row || !mimeType || isPageContentType(mimeType) || row['ZDATA'] == null) continue;
+
+      const raw = row['ZDATA'];
+      const data = Buffer.isBuffer(raw) ? raw : Buffer.from(String(raw), 'utf-8');
+      if (data.length === 0) continue;
+      if (data.length > MAX_ATTACHMENT_BYTES) {
+        console.warn(`Skipping attachment ${id}: ${data.length} bytes`);
+        continue;
+      }
+
+      attachments.set(id, { id, name: getAttachmentName(row, id, mimeType), mimeType, data: new Uint8Array(data) });
+    }
+  } catch (err) {
+    console.error('Failed to load media attachments:', err);
+  } finally {
+    db?.close();
+  }
+
+  return attachments;
+}
+
+/**
+ * Embed the files and list them in the EmbeddedFiles name tree of the catalog.
+ * Returns the file specification of every attachment by resource id.
+ */
+export function embedAttachments(
+  pdfDoc: PDFDocument,
+  attachments: Map<number, MediaAttachment>
+): Map<number, PDFRef> {
+  const { context } = pdfDoc;
+  const fileSpecs = new Map<number, PDFRef>();
+  const names: [string, PDFRef][] = [];
+  const usedNames = new Set<string>();
+
+  for (const attachment of attachments.values()) {
+    // Names in the tree must be unique
+    let name = attachment.name;
+    for (let i = 2; usedNames.has(name); i++) name = `${i}-${attachment.name}`;
+    usedNames.add(name);
+
+    // Media files are compressed already, deflating them again only costs time
+    const fileStream = context.stream(attachment.data, {
+      Type: 'EmbeddedFile',
+      Subtype: attachment.mimeType,
+      Params: { Size: attachment.data.length },
+    });
+    const fileStreamRef = context.register(fileStream);
+    const fileSpec = context.obj({
+      Type: 'Filespec',
+      F: PDFString.of(name.replace(/[^\x20-\x7e]/g, '_')),
+      UF: PDFHexString.fromText(name),
+      EF: { F: fileStreamRef, UF: fileStreamRef },
+      Desc: PDFHexString.fromText(name),
+    });
+    const fileSpecRef = context.register(fileSpec);
+
+    fileSpecs.set(attachment.id, fileSpecRef);
+    names.push([name, fileSpecRef]);
+  }
+
+  if (names.length === 0) return fileSpecs;
+
+  // Name trees are sorted by key
+  names.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const namesArray = context.obj([]) as PDFArray;
+  for (const [name, ref] of names) {
+    namesArray.push(PDFHexString.fromText(name));
+    namesArray.push(ref);
+  }
+
+  let namesDict = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  if (!namesDict) {
+    namesDict = context.obj({}) as PDFDict;
+    pdfDoc.catalog.set(PDFName.of('Names'), namesDict);
+  }
+  namesDict.set(PDFName.of('EmbeddedFiles'), context.obj({ Names: namesArray }));
+
+  return fileSpecs;
+}
@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFObject,
+  PDFRef,
+  PDFStream,
+} from 'pdf-lib';
+
+// Every page is printed to its own PDF by Chrome and embedded on its own, so each page brings
+// its own copy of the web fonts and of repeated images (logos, backgrounds, icons).
+// Identical font and image objects are merged into one shared object before saving:
+//   candidates  font dictionaries, image XObjects and every object they reference
+//               (font descriptors, font files, ToUnicode maps, soft masks, ICC profiles)
+//   identical   same dictionary and same stream bytes, references compared by their
+//               shared object, so fonts match once their font files do
+
+export type DedupeResult = {
+  removedObjects: number;
+  savedBytes: number;     // stream bytes of the removed copies
+};
+
+// A font dictionary references its descriptor, which references the font file: a few rounds
+// let the outer objects match once their inner objects are merged
+const MAX_ROUNDS = 8;
+
+const FONT = PDFName.of('Font');
+const IMAGE = PDFName.of('Image');
+const TYPE = PDFName.of('Type');
+const SUBTYPE = PDFName.of('Subtype');
+
+function isFontOrImage(object: PDFObject): boolean {
+  const dict = object instanceof PDFStream ? object.dict : object;
+  if (!(dict instanceof PDFDict)) return false;
+  return dict.get(TYPE) === FONT || (object instanceof PDFStream && dict.get(SUBTYPE) === IMAGE);
+}
+
+function forEachRef(object: PDFObject, visit: (ref: PDFRef) => void) {
+  if (object instanceof PDFRef) visit(object);
+  else if (object instanceof PDFStream) forEachRef(object.dict, visit);
+  else if (object instanceof PDFDict) object.values().forEach((value) => forEachRef(value, visit));
+  else if (object instanceof PDFArray) object.asArray().forEach((value) => forEachRef(value, visit));
+}
+
+// Fonts, images and everything reachable from them
+function collectCandidates(pdfDoc: PDFDocument): PDFRef[] {
+  const { context } = pdfDoc;
+  const found = new Set<PDFRef>();
+  const queue = context
+    .enumerateIndirectObjects()
+    .filter(([, object]) => isFontOrImage(object))
+    .map(([ref]) => ref);
+
+  while (queue.length > 0) {
+    const ref = queue.pop()!;
+    if (found.has(ref)) continue;
+    const object = context.lookup(ref);
+    if (!object) continue;
+    found.add(ref);
+    forEachRef(object, (child) => {
+      if (!found.has(child)) queue.push(child);
+    });
+  }
+
+  return [...found].sort((a, b) => a.objectNumber - b.objectNumber || a.generationNumber - b.generationNumber);
+}
+
+// Objects merged in a later round can be the kept object of an earlier one
+function resolveShared(ref: PDFRef, shared: Map<PDFRef, PDFRef>): PDFRef {
+  let target = ref;
+  while (shared.has(target)) target = shared.get(target)!;
+  return target;
+}
+
+function serialize(object: PDFObject, shared: Map<PDFRef, PDFRef>): string {
+  if (object instanceof PDFRef) return resolveShared(object, shared).toString();
+  if (object instanceof PDFDict) {
+    return `<<${object.entries().map(([key, value]) => `${key.toString()} ${serialize(value, shared)}`).join(' ')}>>`;
+  }
+  if (object instanceof PDFArray) return `[${object.asArray().map((value) => serialize(value, shared)).join(' ')}]`;
+  return object.toString();
+}
+
+function getObjectKey(object: PDFObject, shared: Map<PDFRef, PDFRef>, streamHashes: Map<PDFObject, string>): string {
+  if (!(object instanceof PDFStream)) return serialize(object, shared);
+
+  // Stream bytes are hashed once, only the dictionary changes between rounds
+  let hash = streamHashes.get(object);
+  if (!hash) {
+    hash = crypto.createHash('sha1').update(object.getContents()).digest('hex');
+    streamHashes.set(object, hash);
+  }
+  return `${serialize(object.dict, shared)} stream ${hash}`;
+}
+
+// Point every reference to a merged object at the shared one, in place
+function replaceRefs(object: PDFObject, shared: Map<PDFRef, PDFRef>) {
+  if (object instanceof PDFStream) {
+    replaceRefs(object.dict, shared);
+  } else if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      const target = value instanceof PDFRef && shared.has(value) ? resolveShared(value, shared) : undefined;
+      if (target) object.set(key, target);
+      else replaceRefs(value, shared);
+    }
+  } else if (object instanceof PDFArray) {
+    object.asArray().forEach((value, i) => {
+      const target = value instanceof PDFRef && shared.has(value) ? resolveShared(value, shared) : undefined;
+      if (target) object.set(i, target);
+      else replaceRefs(value, shared);
+    });
+  }
+}
+
+/**
+ * Merge identical font and image objects of the document into shared objects.
+ */
+export function deduplicateFontsAndImages(pdfDoc: PDFDocument): DedupeResult {
+  const { context } = pdfDoc;
+  const candidates = collectCandidates(pdfDoc);
+
+  // duplicate -> the object that is kept
+  const shared = new Map<PDFRef, PDFRef>();
+  const streamHashes = new Map<PDFObject, string>();
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const firstByKey = new Map<string, PDFRef>();
+    let merged = 0;
+
+    for (const ref of candidates) {
+      if (shared.has(ref)) continue;
+      const object = context.lookup(ref);
+      if (!object) continue;
+
+      const key = getObjectKey(object, shared, streamHashes);
+      const first = firstByKey.get(key);
+      if (first) {
+        shared.set(ref, first);
+        merged++;
+      } else {
+        firstByKey.set(key, ref);
+      }
+    }
+
+    if (merged === 0) break;
+  }
+
+  if (shared.size === 0) return { removedObjects: 0, savedBytes: 0 };
+
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    replaceRefs(object, shared);
+  }
+
+  let savedBytes = 0;
+  for (const duplicate of shared.keys()) {
+    const object = context.lookup(duplicate);
+    if (object instanceof PDFStream) savedBytes += object.getContentsSize();
+    context.delete(duplicate);
+  }
+
+  return { removedObjects: shared.size, savedBytes };
+}
@@ -0,0 +1,4942 @@
+import sqlite from 'better-sqlite3';
+import puppeteer, { type Browser, type Page } from 'puppeteer';
+import {
+  PDFDocument,
+  PDFName,
+  PDFString,
+  PDFArray,
+  PDFNull,
+  PDFDict,
+  PDFRef,
+  PDFNumber,
+  PDFHexString,
+  rgb,
+  PDFPage,
+  PDFEmbeddedPage,
+} from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import {
+  setPhaseProgress,
+  setInterleavedPhaseProgress,
+  startProgress,
+  addProgressWarning,
+  addImageSavings,
+  clearCancelled,
+  throwIfCancelled,
+  ExportCancelledError,
+  setProgressPart,
+} from '@/lib/progressStore';
+import { getResolvedPaths } from '@/lib/config';
+import { getRenderCacheKey, pruneRenderCache, readCachedRender, writeCachedRender } from '@/lib/renderCache';
+import { createZip, type ZipEntry } from '@/lib/zip';
+import { createEpub, serializePagesToXhtml } from '@/lib/epubExport';
+import { createHtmlSite } from '@/lib/htmlSiteExport';
+import { applyPdfMetadata, loadCourseMetadata, type CourseMetadata } from '@/lib/pdfMetadata';
+import { loadCoverImages } from '@/lib/courseImages';
+import { drawText, getUnicodeFonts, type PdfTextFont } from '@/lib/pdfFonts';
+import {
+  addLinkAnnotations,
+  placeLinks,
+  type LinkTargets,
+  type PlacedLink,
+  type RenderedLink,
+} from '@/lib/pdfLinks';
+import { embedAttachments, loadMediaAttachments } from '@/lib/pdfAttachments';
+import { deduplicateFontsAndImages } from '@/lib/pdfDedupe';
+import { buildIssueDocument, groupIssuePages, ISSUE_LINK_ORIGIN, splitIssuePdf } from '@/lib/issueRender';
+import { ResourceReader, type TopicPageRow } from '@/lib/resourceReader';
+import { drawBookCover, drawCompilationCover, type CoverBook } from '@/lib/coverPage';
+import {
+  getImageQualityPreset,
+  hasImageTransform,
+  ImageTransformer,
+  parseImageQuality,
+  type ImageQuality,
+} from '@/lib/pageImages';
+import {
+  drawHeaderFooter,
+  hasHeaderFooter,
+  parseHeaderFooterConfig,
+  type HeaderFooterConfig,
+} from '@/lib/headerFooter';
+import { createImposedPdf, parseImpositionMode, type ImpositionMode } from '@/lib/imposition';
+import fs from 'fs';
+import path from 'path';
+import CryptoJS from 'crypto-js';
+
+function getDbPath() {
+  return getResolvedPaths().dbPath;
+}
+
+type PageFormat = 'a4' | 'letter' | 'a5' | 'custom' | 'native';
+
+// merged: one PDF for everything, perBook / perChapter: one PDF each, bundled as ZIP
+type OutputMode = 'merged' | 'perBook' | 'perChapter';
+
+// pdf: rendered pages, epub: reflowable EPUB 3 built from the same HTML pages,
+// html: static offline site (ZIP) with index, page navigation and search
+type ExportFormat = 'pdf' | 'epub' | 'html';
+
+// Page size in PDF points (72 pt/inch)
+type PageSize = { width: number; height: number };
+
+const PAGE_SIZES: Record<'a4' | 'letter' | 'a5', PageSize> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+  a5: { width: 419.53, height: 595.28 },
+};
+
+// Sanity limits for custom page sizes (mm)
+const MIN_CUSTOM_PAGE_MM = 50;
+const MAX_CUSTOM_PAGE_MM = 1200;
+
+const MAX_GUTTER_MM = 40;
+
+// High-DPI canvas (≈300 DPI)
+// A4: 210mm x 297mm @ ~294 DPI -> ~2434 x 3445 px
+const RENDER_DPI = 294.3;
+
+export type Book = {
+  BookID: string;
+  Titel: string;
+  CourseName: string;
+  Refrence: string;
+  Issue: number[];
+  Lang: string;
+  Toggled: boolean;
+  // chapters (ZISSUEPRODUCT values from Issue) to export, all chapters if missing
+  SelectedIssues?: number[];
+};
+
+export interface ExportOptions {
+  generateTocPages: boolean;
+  exportQuiz: boolean;
+  exportMyQuiz: boolean;
+  // slice pages taller than the output page into several pages instead of shrinking them
+  splitTallPages: boolean;
+  pageFormat: PageFormat;
+  // only used with pageFormat 'custom'
+  customPageWidthMm: number | null;
+  customPageHeightMm: number | null;
+  outputMode: OutputMode;
+  format: ExportFormat;
+  // header / footer templates, PDF only
+  headerFooter: HeaderFooterConfig;
+  // blank pages so every book and top-level chapter starts on a right-hand (odd) page
+  duplexChapterStarts: boolean;
+  // inner binding margin, alternates between left (odd pages) and right (even pages)
+  gutterMm: number;
+  // extra print PDF (2-up, 4-up or booklet) next to the reading PDF
+  imposition: ImpositionMode;
+  // cover page in front of every book, plus a compilation cover for multi-book PDFs
+  coverPages: boolean;
+  // audio, video and documents the pages reference, embedded as file attachments
+  attachMedia: boolean;
+  // grayscale images, no background fills or boxes, PDF only
+  inkSaver: boolean;
+  // downsampling and recompression of raster images, PDF only
+  imageQuality: ImageQuality;
+  // one Puppeteer document per issue instead of per page, content flows over the pages
+  renderWholeIssues: boolean;
+}
+
+export type ExportResult = {
+  data: Uint8Array;
+  fileName: string;
+  contentType: string;
+};
+
+// One file of a split export
+type ExportPart = {
+  fileName: string;
+  books: Book[];
+};
+
+interface TOCData {
+  zpk: number;
+  title: string;
+  pagenum: number;
+  chapterSection: string;
+  zOrder: number;
+  zIssue: number;
+  zLevel: number;
+}
+
+// [pdf page number, book page number, issue of the page]
+type PageMapping = [number, number | null, number];
+
+// [pdf page number, book page number, toc item titel, toc item level]
+export type MergedTOCEntry = [number, number | null, string, number];
+
+export type RenderedPage = {
+  pdf: Buffer;
+  // rendered canvas size in CSS px
+  width: number;
+  height: number;
+  // y offsets (CSS px from the top) where the page can be cut without slicing through content
+  breakPoints: number[];
+  // <a href> of the page with their rectangles, embedding the page drops its annotations
+  links: RenderedLink[];
+};
+
+// What a page of the merged PDF shows, used for its page label.
+// Pages without an entry are the inserted TOC pages.
+type PageLabelKind =
+  | { kind: 'book'; printedNumber: number | null }
+  | { kind: 'quiz' }
+  | { kind: 'blank' }
+  | { kind: 'cover' };
+
+// Split mode never fills a page less than this before cutting at a break point
+const MIN_SLICE_FILL = 0.5;
+
+type QuizAsset = {
+  id: number;
+  mediaType: string;
+  dataUrl: string;
+};
+
+type QuizSharedAssetGroup = {
+  id: number;
+  questionNumbers: number[]; // 1-based indices in this chapter
+  pages: QuizAsset[];        // multi-page asset sets
+};
+
+type QuizAnswer = {
+  id: number;
+  number: number;
+  text: string;
+  isCorrect: boolean | null;
+};
+
+type QuizQuestion = {
+  id: number;
+  ref: string | null;
+  text: string;
+  exerciseTitle: string | null;
+  exerciseCode: string | null;
+  exerciseId: number;
+  answers: QuizAnswer[];
+  assets: QuizAsset[];
+};
+
+type QuizChapter = {
+  id: number;
+  title: string;
+  ref: string | null;
+  issueId: string | null;
+  questions: QuizQuestion[];
+  sharedAssets: QuizSharedAssetGroup[];
+};
+
+export type QuizBook = {
+  id: number;               // cd.Z_PK
+  courseId: string | null;  // cd.ZCOURSEID
+  ref: string | null;       // cd.ZREFERENCE
+  title: string;            // nice label taken from your Book object
+  lang?: string | null;     // language code
+  chapters: QuizChapter[];
+};
+
+type RawQuizRow = {
+  bookId: number;
+  bookCourseId: string | null;
+  bookRef: string | null;
+
+  chapterId: number;
+  chapterTitle: string | null;
+  chapterRef: string | null;
+  issueId: string | null;
+
+  exerciseId: number;
+  exerciseTitle: string | null;
+  exerciseCode: string | null;
+
+  questionId: number;
+  questionRef: string | null;
+  questionText: string | null;
+
+  answerId: number | null;
+  answerNumber: number | null;
+  answerText: string | null;
+  answerIsCorrect: number | null;
+
+  issueProduct: number;
+};
+
+type AssetRow = {
+  exerciseId: number;
+  resId: number;
+  mediaType: string | null;
+  data: Buffer | null;
+};
+
+// Use Montserrat Unicode fonts from assets/fonts for all pdf-lib text we draw
+// Helper: normalize to NFC so combining marks become precomposed glyphs
+function normalizePdfText(text: string | null | undefined): string {
+  if (!text) return '';
+  return text.normalize('NFC');
+}
+
+function getPageInfoNumber(html: string): number | null {
+  const target = '<span class="pageInfo">';
+  const startIndex = html.lastIndexOf(target);
+  if (startIndex === -1) return null;
+
+  const contentStart = startIndex + target.length;
+  const endIndex = html.indexOf('</span>', contentStart);
+  if (endIndex === -1) return null;
+
+  const insideText = html.slice(contentStart, endIndex).trim();
+  const numberMatch = insideText.match(/\d+/);
+  return numberMatch ? parseInt(numberMatch[0], 10) : null;
+}
+
+function mmToPt(mm: number): number {
+  return (mm / 25.4) * 72;
+}
+
+function parseOutputMode(value: string | null): OutputMode {
+  return value === 'perBook' || value === 'perChapter' ? value : 'merged';
+}
+
+function parseExportFormat(value: string | null): ExportFormat {
+  return value === 'epub' || value === 'html' ? value : 'pdf';
+}
+
+function parseGutterMm(value: string | null): number {
+  const mm = value ? Number(value) : 0;
+  return Number.isFinite(mm) ? Math.min(Math.max(mm, 0), MAX_GUTTER_MM) : 0;
+}
+
+function parsePageFormat(value: string | null): PageFormat {
+  switch (value) {
+    case 'letter':
+    case 'a5':
+    case 'custom':
+    case 'native':
+      return value;
+    default:
+      return 'a4';
+  }
+}
+
+/**
+ * Page size used for every page we lay out ourselves (TOC, quiz, solutions)
+ * and as target for the rendered content pages.
+ * 'native' keeps content pages at their rendered size, generated pages fall back to A4.
+ */
+function resolvePageSize(options: ExportOptions, onWarning?: (warning: string) => void): PageSize {
+  if (options.pageFormat === 'custom') {
+    const { customPageWidthMm: w, customPageHeightMm: h } = options;
+    const valid = (mm: number | null): mm is number =>
+      mm != null && Number.isFinite(mm) && mm >= MIN_CUSTOM_PAGE_MM && mm <= MAX_CUSTOM_PAGE_MM;
+
+    if (valid(w) && valid(h)) {
+      return { width: mmToPt(w), height: mmToPt(h) };
+    }
+    console.warn('Invalid custom page size, falling back to A4:', w, h);
+    onWarning?.(`Invalid custom page size (${w} x ${h} mm), A4 was used instead`);
+    return PAGE_SIZES.a4;
+  }
+
+  if (options.pageFormat === 'native') return PAGE_SIZES.a4;
+  return PAGE_SIZES[options.pageFormat];
+}
+
+// Browser viewport with the same aspect ratio as the output page
+function getViewportForPageSize(pageSize: PageSize): { width: number; height: number } {
+  return {
+    width: Math.round((pageSize.width / 72) * RENDER_DPI),
+    height: Math.round((pageSize.height / 72) * RENDER_DPI),
+  };
+}
+
+
+/**
+ * Read the export options from query parameters (or any other string map).
+ * Missing parameters fall back to the defaults of the export dialog.
+ */
+export function parseExportOptions(params: URLSearchParams): ExportOptions {
+  const generateTocPagesParam = params.get('generateTocPages');
+  const exportQuizParam = params.get('exportQuiz');
+  const pageWidthMmParam = params.get('pageWidthMm');
+  const pageHeightMmParam = params.get('pageHeightMm');
+
+  return {
+    // default: true if param missing
+    generateTocPages:
+      generateTocPagesParam === null ? true : generateTocPagesParam === 'true',
+    exportQuiz:
+      exportQuizParam === null ? true : exportQuizParam === 'true',
+    // default: false if param missing
+    exportMyQuiz: params.get('exportMyQuiz') === 'true',
+    splitTallPages: params.get('splitTallPages') === 'true',
+    // default: A4
+    pageFormat: parsePageFormat(params.get('pageFormat')),
+    customPageWidthMm: pageWidthMmParam ? Number(pageWidthMmParam) : null,
+    customPageHeightMm: pageHeightMmParam ? Number(pageHeightMmParam) : null,
+    // default: one merged PDF
+    outputMode: parseOutputMode(params.get('outputMode')),
+    // default: PDF
+    format: parseExportFormat(params.get('format')),
+    // default: printed page number bottom right
+    headerFooter: parseHeaderFooterConfig(params),
+    // default: no blank pages, no gutter
+    duplexChapterStarts: params.get('duplexChapterStarts') === 'true',
+    gutterMm: parseGutterMm(params.get('gutterMm')),
+    // default: reading PDF only
+    imposition: parseImpositionMode(params.get('imposition')),
+    // default: no cover pages
+    coverPages: params.get('coverPages') === 'true',
+    // default: media is left out
+    attachMedia: params.get('attachMedia') === 'true',
+    // default: pages as designed, in color
+    inkSaver: params.get('inkSaver') === 'true',
+    // default: images as stored in the book
+    imageQuality: parseImageQuality(params.get('imageQuality')),
+    // default: every page rendered on its own
+    renderWholeIssues: params.get('renderWholeIssues') === 'true',
+  };
+}
+
+/**
+ * Narrow every book to its selected chapters.
+ * Issue then only holds the chapters to export; books without any selected chapter are skipped.
+ */
+export function applyChapterSelection(books: Book[]): Book[] {
+  return books.map((book) => {
+    if (!Array.isArray(book.SelectedIssues)) return book;
+
+    const selected = new Set(book.SelectedIssues);
+    const issues = book.Issue.filter((issue) => selected.has(issue));
+
+    return {
+      ...book,
+      Issue: issues,
+      Toggled: book.Toggled && issues.length > 0,
+    };
+  });
+}
+
+const EXPORT_FORMATS: Record<Exclude<ExportFormat, 'html'>, { extension: string; contentType: string }> = {
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+  epub: { extension: 'epub', contentType: 'application/epub+zip' },
+};
+
+/**
+ * Run the whole export for the given books.
+ * Returns one PDF (or EPUB), or a ZIP of them when the output mode splits the export
+ * or a print PDF is added.
+ * The HTML site is always a ZIP, split exports get one site folder per part.
+ * Progress is reported under jobId; throws ExportCancelledError when the job is cancelled.
+ */
+export async function runPdfExport(
+  jobId: string,
+  selectedBooks: Book[],
+  exportOptions: ExportOptions
+): Promise<ExportResult> {
+  // The job id may be reused, so forget an earlier cancellation
+  clearCancelled(jobId);
+  startProgress(jobId);
+
+  const books = applyChapterSelection(selectedBooks);
+  const { format } = exportOptions;
+
+  // ZIP entries of one part: the PDF / EPUB file, or all files of the site below fileName
+  const exportPart = async (partBooks: Book[], fileName: string): Promise<ZipEntry[] | null> => {
+    if (format === 'html') {
+      const files = await exportBooksToHtmlSite(jobId, partBooks);
+      return files && files.map((file) => ({ ...file, name: fileName ? `${fileName}/${file.name}` : file.name }));
+    }
+
+    if (format === 'epub') {
+      const bytes = await exportBooksToEpub(jobId, partBooks, exportOptions);
+      return bytes && [{ name: fileName, data: bytes }];
+    }
+
+    const bytes = await exportBooksToPdf(jobId, partBooks, exportOptions);
+    if (!bytes) return null;
+    if (exportOptions.imposition === 'none') return [{ name: fileName, data: bytes }];
+
+    // The print PDF goes next to the reading PDF: book.pdf + book-print.pdf
+    const printBytes = await createImposedPdf(bytes, exportOptions.imposition);
+    return [
+      { name: fileName, data: bytes },
+      { name: fileName.replace(/\.pdf$/, '-print.pdf'), data: printBytes },
+    ];
+  };
+
+  if (exportOptions.outputMode === 'merged') {
+    if (format === 'html') {
+      const files = await exportPart(books, '');
+      if (!files) throw new Error('Missing HTML pages');
+      return { data: createZip(files), fileName: 'book-site.zip', contentType: 'application/zip' };
+    }
+
+    const { extension, contentType } = EXPORT_FORMATS[format];
+    const files = await exportPart(books, `book.${extension}`);
+    if (!files) throw new Error('Missing HTML pages');
+    if (files.length > 1) {
+      return { data: createZip(files), fileName: 'book.zip', contentType: 'application/zip' };
+    }
+    return { data: files[0].data, fileName: files[0].name, contentType };
+  }
+
+  // Every part is a full export of its own (outline, TOC pages, quiz section)
+  const parts = getExportParts(
+    books,
+    exportOptions.outputMode,
+    format === 'html' ? null : EXPORT_FORMATS[format].extension
+  );
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < parts.length; i++) {
+    throwIfCancelled(jobId);
+    setProgressPart(jobId, i, parts.length);
+
+    const files = await exportPart(parts[i].books, parts[i].fileName);
+    if (!files) {
+      addProgressWarning(jobId, `${parts[i].fileName} has no pages and was left out`);
+      continue;
+    }
+    entries.push(...files);
+  }
+
+  if (entries.length === 0) throw new Error('Missing HTML pages');
+  return { data: createZip(entries), fileName: 'books.zip', contentType: 'application/zip' };
+}
+
+function toFileNamePart(value: string): string {
+  return value.trim().replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^_+|_+$/g, '') || 'untitled';
+}
+
+// ZISSUEPRODUCT -> ZISSUEID (e.g. 12 -> "PPL020A02"), used for chapter file names
+function getIssueIdentifiers(issues: number[]): Map<number, string> {
+  const result = new Map<number, string>();
+  if (issues.length === 0) return result;
+
+  const db = sqlite(getDbPath());
+  try {
+    const rows = db
+      .prepare(
+        `SELECT "ZISSUEPRODUCT" AS issueProduct, "ZISSUEID" AS issueId
+         FROM ZILPISSUEDEF
+         WHERE "ZISSUEPRODUCT" IN (${issues.map(() => '?').join(',')})`
+      )
+      .all(...issues) as { issueProduct: number; issueId: string | null }[];
+
+    for (const row of rows) {
+      if (row.issueId) result.set(Number(row.issueProduct), row.issueId);
+    }
+  } finally {
+    db.close();
+  }
+  return result;
+}
+
+/**
+ * Split the toggled books into the files of a split export.
+ * File names follow the book order:
+ *   perBook:    01_PPL020A.pdf
+ *   perChapter: 01_PPL020A/03_PPL020A03.pdf
+ * Without extension the names are used as folder names.
+ */
+function getExportParts(
+  books: Book[],
+  mode: 'perBook' | 'perChapter',
+  extension: string | null = 'pdf'
+): ExportPart[] {
+  const suffix = extension ? `.${extension}` : '';
+  const toggledBooks = books.filter((book) => book.Toggled);
+  const issueIds = mode === 'perChapter'
+    ? getIssueIdentifiers(toggledBooks.flatMap((book) => book.Issue))
+    : new Map<number, string>();
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  const parts: ExportPart[] = [];
+  toggledBooks.forEach((book, bookIndex) => {
+    const bookName = `${pad(bookIndex + 1)}_${toFileNamePart(book.CourseName || book.BookID)}`;
+
+    if (mode === 'perBook') {
+      parts.push({ fileName: `${bookName}${suffix}`, books: [book] });
+      return;
+    }
+
+    book.Issue.forEach((issue, chapterIndex) => {
+      const chapterName = toFileNamePart(issueIds.get(issue) ?? `issue-${issue}`);
+      parts.push({
+        fileName: `${bookName}/${pad(chapterIndex + 1)}_${chapterName}${suffix}`,
+        books: [{ ...book, Issue: [issue] }],
+      });
+    });
+  });
+
+  return parts;
+}
+
+// Topic pages of the toggled books, issue by issue in export order
+type IssuePages = {
+  issue: number;
+  pages: TopicPageRow[];
+};
+
+/**
+ * List the topic pages of the toggled books (init and fetch phases).
+ * Only ids are read here, the pages are built from the resources when they are needed.
+ */
+async function listIssuePages(jobId: string, reader: ResourceReader, books: Book[]): Promise<IssuePages[]> {
+  const issues = books
+    .filter(book => book.Toggled)     // only books that are toggled on
+    .flatMap(book => book.Issue);     // flatten all Issue arrays
+
+  setPhaseProgress(jobId, 'init', 1);
+  await new Promise(res => setImmediate(res))
+
+  const result: IssuePages[] = [];
+  for (const issue of issues) {
+    throwIfCancelled(jobId);
+    result.push({ issue, pages: reader.listTopicPages(issue) });
+    setPhaseProgress(jobId, 'fetch', result.length / issues.length, {
+      current: result.length,
+      total: issues.length,
+    });
+    await new Promise(res => setImmediate(res))
+  }
+
+  return result;
+}
+
+function countTopicPages(issues: IssuePages[]): number {
+  return issues.reduce((sum, { pages }) => sum + pages.length, 0);
+}
+
+/**
+ * Build the processed HTML pages of the toggled books (init, fetch and process phases),
+ * with the issue of every page. Used by the EPUB and HTML site export, which need all pages
+ * at once; the PDF export builds and renders the pages issue by issue instead (see generateMergedPdf).
+ */
+async function loadHtmlPages(
+  jobId: string,
+  books: Book[]
+): Promise<{ htmlPages: string[]; pageIssues: number[] }> {
+  const reader = new ResourceReader();
+
+  try {
+    const issues = await listIssuePages(jobId, reader, books);
+    const total = countTopicPages(issues);
+    const htmlPages: string[] = [];
+    const pageIssues: number[] = [];
+
+    setPhaseProgress(jobId, 'process', 0);
+    for (const { issue, pages } of issues) {
+      for (const page of pages) {
+        throwIfCancelled(jobId);
+        htmlPages.push(buildTopicPage(reader, page));
+        pageIssues.push(issue);
+        setPhaseProgress(jobId, 'process', htmlPages.length / total, {
+          current: htmlPages.length,
+          total,
+        });
+        await new Promise(res => setImmediate(res))
+      }
+      reader.release();
+    }
+
+    return { htmlPages, pageIssues };
+  } finally {
+    reader.close();
+  }
+}
+
+/**
+ * Export the toggled books into one PDF.
+ * Returns null when the selection has no pages at all.
+ */
+async function exportBooksToPdf(
+  jobId: string,
+  books: Book[],
+  exportOptions: ExportOptions
+): Promise<Uint8Array | null> {
+  const reader = new ResourceReader();
+
+  try {
+    const issues = await listIssuePages(jobId, reader, books);
+    if (countTopicPages(issues) === 0) return null;
+
+    const mergedPdfBytes = await generateMergedPdf(books, issues, reader, jobId, exportOptions);
+
+    setPhaseProgress(jobId, 'finalize', 1);
+    await new Promise(res => setImmediate(res))
+    return mergedPdfBytes;
+  } finally {
+    reader.close();
+  }
+}
+
+/**
+ * Export the toggled books into one EPUB 3 file.
+ * Uses the same HTML pages, TOC and quiz data as the PDF export, the convert phase
+ * serializes pages to XHTML instead of rendering them.
+ * Returns null when the selection has no pages at all.
+ */
+async function exportBooksToEpub(
+  jobId: string,
+  books: Book[],
+  exportOptions: ExportOptions
+): Promise<Uint8Array | null> {
+  const { htmlPages, pageIssues } = await loadHtmlPages(jobId, books);
+  if (htmlPages.length === 0) return null;
+
+  setPhaseProgress(jobId, 'convert', 0);
+  await new Promise(res => setImmediate(res))
+  const pages = await serializePagesToXhtml(jobId, htmlPages, (done, total) =>
+    setPhaseProgress(jobId, 'convert', done / total, { current: done, total })
+  );
+
+  // One EPUB document per HTML page, so TOC page numbers are document numbers
+  throwIfCancelled(jobId);
+  const printedPageNumbers = htmlPages.map(getPageInfoNumber);
+  const pageNum = extractPageNumbers(books, pageIssues, printedPageNumbers);
+  const tocData = mergeTOCData(books, await getTOCData(), pageNum);
+  setPhaseProgress(jobId, 'merge', 1);
+
+  let quizBooks: QuizBook[] = [];
+  if (exportOptions.exportQuiz) {
+    try {
+      setPhaseProgress(jobId, 'quiz-decrypt', 0);
+      await ensureQuizDecryptedTablesForExport(books);
+      setPhaseProgress(jobId, 'quiz-decrypt', 1);
+
+      quizBooks = await loadQuizDataForBooks(books);
+      setPhaseProgress(jobId, 'quiz-insert', 1);
+    } catch (err) {
+      if (err instanceof ExportCancelledError) throw err;
+      console.error('Failed to load quiz data for EPUB:', err);
+      addProgressWarning(jobId, 'Quiz pages could not be added, the EPUB contains the book pages only');
+    }
+  }
+
+  throwIfCancelled(jobId);
+  setPhaseProgress(jobId, 'finalize', 0);
+  const epubBytes = createEpub({
+    books: books.filter((book) => book.Toggled),
+    pages,
+    printedPageNumbers,
+    tocData,
+    quizBooks,
+  });
+
+  setPhaseProgress(jobId, 'finalize', 1);
+  await new Promise(res => setImmediate(res))
+  return epubBytes;
+}
+
+/**
+ * Export the toggled books as offline HTML site, returns the site files.
+ * Returns null when the selection has no pages at all.
+ */
+async function exportBooksToHtmlSite(jobId: string, books: Book[]): Promise<ZipEntry[] | null> {
+  const { htmlPages, pageIssues } = await loadHtmlPages(jobId, books);
+  if (htmlPages.length === 0) return null;
+
+  throwIfCancelled(jobId);
+  setPhaseProgress(jobId, 'convert', 0);
+  await new Promise(res => setImmediate(res))
+  const printedPageNumbers = htmlPages.map(getPageInfoNumber);
+  const pageNum = extractPageNumbers(books, pageIssues, printedPageNumbers);
+  const tocData = mergeTOCData(books, await getTOCData(), pageNum);
+
+  const files = createHtmlSite({
+    books: books.filter((book) => book.Toggled),
+    pages: htmlPages,
+    printedPageNumbers,
+    tocData,
+  });
+
+  setPhaseProgress(jobId, 'finalize', 1);
+  await new Promise(res => setImmediate(res))
+  return files;
+}
+
+/**
+ * Take the raw CSS from ZILPRESOURCE and inline any @font-face src:url(<id>)
+ * as data: URLs by loading the font blobs from the SQLite DB.
+ *
+ * Only used in the PDF generator (not the reader).
+ */
+function embedFontsIntoCss(css: string, reader: ResourceReader): string {
+  if (!css) return css;
+
+  // Find all numeric URLs: url(389), url(387), ...
+  // In your data these only appear in @font-face rules.
+  const urlRegex = /url\((\d+)\)/g;
+  const fontIds = new Set<number>();
+
+  let match: RegExpExecArray | null;
+  while ((match = urlRegex.exec(css)) !== null) {
+    const id = parseInt(match[1], 10);
+    if (!Number.isNaN(id)) {
+      fontIds.add(id);
+    }
+  }
+
+  if (fontIds.size === 0) {
+    return css; // nothing to do
+  }
+
+  // Replace url(<id>) with url("data:...") in the CSS string
+  let resultCss = css;
+
+  for (const id of fontIds) {
+    let dataUrl: string | null = null;
+    try {
+      dataUrl = reader.getFontDataUrl(id);
+    } catch (err) {
+      console.error('Failed to embed font with Z_PK =', id, err);
+    }
+    if (!dataUrl) continue;
+
+    const re = new RegExp(`url\\(${id}\\)`, 'g');
+    resultCss = resultCss.replace(re, `url("${dataUrl}")`);
+  }
+
+  return resultCss;
+}
+
+/**
+ * Build the processed HTML of one topic page: images and fonts inlined as data: URLs,
+ * the linked stylesheets in the head, followed by the overrides for PDF rendering.
+ */
+function buildTopicPage(reader: ResourceReader, page: TopicPageRow): string {
+  const fetchedHtml = reader.getTopicHtml(page.zpk);
+
+  // Process HTML to replace image sources with data URLs
+  let processedHtml = fetchedHtml;
+  const imgTags = fetchedHtml.match(/<img.*?src=".*?pk\/(\d+)".*?>/gm) || [];
+
+  for (const imgTag of imgTags) {
+    const match = imgTag.match(/src=".*?pk\/(\d+)"/);
+    if (match && match[1]) {
+      const imageData = reader.getImageDataUrl(Number(match[1]));
+      if (imageData) {
+        const newImgTag = imgTag.replace(/src=".*?pk\/\d+"/, `src="${imageData}"`);
+        processedHtml = processedHtml.replace(imgTag, newImgTag);
+      }
+    }
+  }
+
+  // Extract ALL CSS links from HTML in *document order* (preserves cascade)
+  const cssIdsOrdered: number[] = [];
+  const cssIdsSeen = new Set<number>();
+
+  // Match each <link ...> tag, then filter for rel="stylesheet" and href=".../pk/<id>"
+  const linkTagRegex = /<link\b[^>]*>/gi;
+  let linkMatch: RegExpExecArray | null;
+
+  while ((linkMatch = linkTagRegex.exec(processedHtml)) !== null) {
+    const tag = linkMatch[0];
+
+    // Only inline real stylesheets
+    if (!/rel=["']stylesheet["']/i.test(tag)) continue;
+
+    // Extract pk/<id> from href
+    const hrefIdMatch = tag.match(/href=["'][^"']*\/pk\/(\d+)["']/i);
+    if (!hrefIdMatch) continue;
+
+    const id = parseInt(hrefIdMatch[1], 10);
+    if (Number.isNaN(id) || cssIdsSeen.has(id)) continue;
+
+    cssIdsSeen.add(id);
+    cssIdsOrdered.push(id);
+  }
+
+  // Extract body INCLUDING its attributes (keeps body#id and body.calibre selectors working)
+  const bodyWholeMatch = processedHtml.match(/<body\b[^>]*>[\s\S]*?<\/body>/i);
+  const modifiedHtml = bodyWholeMatch ? bodyWholeMatch[0] : processedHtml;
+
+  // Fetch + merge linked CSS in the same order as in the HTML
+  let fetchedCss = "";
+  for (const cssId of cssIdsOrdered) {
+    const cssContent = reader.getStylesheet(cssId);
+    if (cssContent && cssContent.trim()) {
+      fetchedCss += cssContent + "\n";
+    }
+  }
+
+  // Also add *ONLY* @font-face blocks from other CSS in the same ZISSUE
+  // (helps books where fonts are declared in an extra CSS not linked in HTML,
+  //  without importing layout-changing rules like max-width/margins.)
+  for (const id of reader.getIssueStylesheetIds(page.issue)) {
+    if (cssIdsSeen.has(id)) continue;
+
+    const css = reader.getStylesheet(id);
+    if (!css || !css.includes("@font-face")) continue;
+
+    const fontFaceBlocks = css.match(/@font-face\s*{[\s\S]*?}\s*/g);
+    if (fontFaceBlocks && fontFaceBlocks.length) {
+      fetchedCss += "\n" + fontFaceBlocks.join("\n") + "\n";
+    }
+  }
+
+  // Embed font blobs as data: URLs so Puppeteer can actually use them
+  if (fetchedCss) {
+    fetchedCss = embedFontsIntoCss(fetchedCss, reader);
+  }
+
+  /* this is stuff for pagesize it replaces the body with a div so the body can be sized well (not complete needs change when stitching together)
+  // fetchedCss: replace first occurrence of "body" with ".old-body {"
+  fetchedCss = fetchedCss.replace(/\bbody\b/, '.old-body');
+
+  // modifiedHtml: replace first <body> and last </body>
+  const firstBodyIndex = modifiedHtml.indexOf('<body>');
+  const lastBodyIndex = modifiedHtml.lastIndexOf('</body>');
+
+  if (firstBodyIndex !== -1 && lastBodyIndex !== -1) {
+    const beforeBody = modifiedHtml.slice(0, firstBodyIndex);
+    const afterOpenBody = modifiedHtml.slice(firstBodyIndex + 6, lastBodyIndex); // skip '<body>'.length == 6
+    const afterCloseBody = modifiedHtml.slice(lastBodyIndex + 7); // skip '</body>'.length == 7
+
+    // Replace body tags
+    modifiedHtml = `${beforeBody}<div class="old-body">${afterOpenBody}</div>${afterCloseBody}`;
+  }*/
+
+  const htmlWithCss = `
+    <html>
+        <head>
+            <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no">
+            <meta name="beook2pdf-resource" content="${page.zpk}">
+            <meta name="beook2pdf-topic" content="${page.topic}">
+            <meta name="beook2pdf-issue" content="${page.issue}">
+            <style>
+              ${fetchedCss}
+            </style>
+            <style>
+              /* beook2pdf overrides:
+                 - remove internal navigation UI and page number from the canvas
+                 - keep only the actual page content
+              */
+              .navigationWrapper,
+              .pageNavigationTable,
+              .navigationMiniToc,
+              .pageInfo {
+                display: none !important;
+              }
+
+              /* Override ebook CSS constraints for proper PDF rendering:
+                 - Remove max-width limitations that cause small content
+                 - Let content fill the available space
+                 - Add reasonable margins for print layout
+              */
+              html, body {
+                max-width: none !important;
+                width: 100% !important;
+                margin: 0 !important;
+                padding: 40px 60px !important;
+                box-sizing: border-box !important;
+              }
+              
+              /* Ensure content containers also expand */
+              body > div,
+              .calibre,
+              .Einfacher-Textrahmen {
+                max-width: none !important;
+                width: auto !important;
+              }
+              
+              /* Scale images to fit within content area */
+              img {
+                max-width: 100% !important;
+                height: auto !important;
+              }
+            </style>
+        </head>
+        ${modifiedHtml}
+    </html>
+    `;
+
+  return htmlWithCss;
+}
+
+type SliceBox = { left: number; bottom: number; right: number; top: number };
+
+/**
+ * Embed the pages of a rendered pdf into the merged document as form XObjects, one per box
+ * returned for a page (undefined: the whole page). pdf-lib embeds lazily on save and keeps
+ * the copied source pages until then, so the XObjects are written right away and the copied
+ * pages (page objects, content streams) are deleted again; only the resources stay.
+ */
+async function embedRenderedPdf(
+  pdfDoc: PDFDocument,
+  pdf: Uint8Array,
+  getBoxes: (size: { width: number; height: number }, pageCount: number) => (SliceBox | undefined)[]
+): Promise<PDFEmbeddedPage[][]> {
+  const srcDoc = await PDFDocument.load(pdf);
+  // Links are placed from the rendered link positions, the annotations are not copied
+  for (const srcPage of srcDoc.getPages()) srcPage.node.delete(PDFName.of('Annots'));
+
+  // Copied once per pdf, so slices of a page share its resources
+  const copiedPages = await pdfDoc.copyPages(srcDoc, srcDoc.getPageIndices());
+  const copiedRefs: PDFRef[] = [];
+  const embeddedPages: PDFEmbeddedPage[][] = [];
+  for (const copiedPage of copiedPages) {
+    // Taken before embedding, which adds the q/Q streams shared by all pages of the document
+    const contents = copiedPage.node.get(PDFName.of('Contents'));
+    const contentRefs = contents instanceof PDFArray ? contents.asArray() : [contents];
+    for (const ref of [copiedPage.ref, ...contentRefs]) {
+      if (ref instanceof PDFRef) copiedRefs.push(ref);
+    }
+
+    const boxes = getBoxes(copiedPage.getSize(), copiedPages.length);
+    const embedded = await pdfDoc.embedPages(boxes.map(() => copiedPage), boxes);
+    for (const embeddedPage of embedded) await embeddedPage.embed();
+    embeddedPages.push(embedded);
+  }
+
+  for (const ref of copiedRefs) pdfDoc.context.delete(ref);
+
+  return embeddedPages;
+}
+
+/**
+ * Build, render and merge the topic pages issue by issue, then add TOC, quiz and cover pages.
+ * Only one issue is held as HTML and rendered PDFs at a time, it is released once it is
+ * appended to the merged document; per page only the printed number, the pdf page count
+ * and the first pdf page (as link target) are kept.
+ */
+export async function generateMergedPdf(
+  books: Book[],
+  issues: IssuePages[],
+  reader: ResourceReader,
+  jobId: string,
+  exportOptions: ExportOptions
+): Promise<Uint8Array> {
+  const pageCount = countTopicPages(issues);
+  const { generateTocPages, exportQuiz } = exportOptions;
+  const pageSize = resolvePageSize(exportOptions, (warning) => addProgressWarning(jobId, warning));
+  const viewport = getViewportForPageSize(pageSize);
+  const nativePageSize = exportOptions.pageFormat === 'native';
+
+  if (pageCount === 0) {
+    throw new Error('Missing HTML pages');
+  }
+
+  const maxConcurrentProcesses = 20;
+  // Issue documents are large, a few tabs keep Chrome busy
+  const maxConcurrentIssues = 2;
+
+  const { inkSaver, imageQuality, renderWholeIssues } = exportOptions;
+  const imagePreset = getImageQualityPreset(imageQuality);
+  // Quiz and cover images are never drawn larger than the page
+  const imageTransformer = new ImageTransformer({
+    grayscale: inkSaver,
+    maxSize: imagePreset
+      ? { width: (pageSize.width / 72) * imagePreset.dpi, height: (pageSize.height / 72) * imagePreset.dpi }
+      : null,
+    quality: imagePreset?.quality ?? null,
+  });
+  // Native pages keep their rendered size, so they are never split either
+  const collectBreakPoints = exportOptions.splitTallPages && !nativePageSize;
+  const renderOptions: PageRenderOptions = {
+    inkSaver,
+    imageTransformer,
+    imageDpi: imagePreset?.dpi ?? null,
+    collectBreakPoints,
+  };
+
+  // Building and rendering alternate issue by issue, both count towards the progress
+  let pagesBuilt = 0;
+  let pagesProcessed = 0;
+  const reportPageProgress = (activePhase: 'process' | 'convert') => {
+    setInterleavedPhaseProgress(
+      jobId,
+      { process: pagesBuilt / pageCount, convert: pagesProcessed / pageCount },
+      activePhase,
+      { current: activePhase === 'process' ? pagesBuilt : pagesProcessed, total: pageCount }
+    );
+  };
+
+  // Launched for the first page that is not in the render cache, shared by all issues
+  let browserLaunch: Promise<Browser> | null = null;
+  const getBrowser = () => (browserLaunch ??= puppeteer.launch({
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    headless: true,
+  }));
+  let cachedPageCount = 0;
+  let renderedPageCount = 0;
+  let renderMs = 0;
+
+  // Render the pages of one issue (firstIndex: export-wide index of its first page), pages with
+  // the same HTML and settings as in an earlier export come from the render cache
+  const renderIssuePages = async (htmlPages: string[], firstIndex: number): Promise<RenderedPage[]> => {
+    const renderedPages: RenderedPage[] = new Array(htmlPages.length);
+    const cacheKeys = htmlPages.map((html) => getRenderCacheKey(html, {
+      viewport,
+      inkSaver,
+      imageQuality,
+      ...(renderWholeIssues ? { renderWholeIssues } : {}),
+      // Pages without break points must not be reused in split mode
+      ...(collectBreakPoints ? {} : { breakPoints: false }),
+    }));
+    const pagesToRender: number[] = [];
+    for (let i = 0; i < htmlPages.length; i++) {
+      const cached = readCachedRender(cacheKeys[i]);
+      if (cached) {
+        renderedPages[i] = cached;
+        cachedPageCount++;
+        pagesProcessed++;
+      } else {
+        pagesToRender.push(i);
+      }
+    }
+    reportPageProgress('convert');
+    if (pagesToRender.length === 0) return renderedPages;
+
+    const storeRenderedPage = (i: number, rendered: RenderedPage) => {
+      renderedPages[i] = rendered;
+      writeCachedRender(cacheKeys[i], rendered);
+
+      pagesProcessed++;
+      reportPageProgress('convert');
+    };
+
+    const processPageBatch = async (browser: Browser, batch: number[]) => {
+      const page = await browser.newPage();
+      await page.setViewport(viewport);
+
+      try {
+        for (const i of batch) {
+          throwIfCancelled(jobId);
+          storeRenderedPage(i, await processPage(page, htmlPages[i], firstIndex + i, renderOptions));
+        }
+      } finally {
+        // The browser may already be closing after another batch was cancelled
+        await page.close().catch(() => {});
+      }
+    };
+
+    // Pages of this issue that could not be rendered with the issue document, see below
+    let fallbackPages = 0;
+    let fallbackReason: string | null = null;
+
+    // A failed issue document is rendered again in smaller pieces, cancelling stops right away
+    const tryProcessIssue = async (page: Page, group: number[]): Promise<RenderedPage[] | null> => {
+      try {
+        const rendered = await processIssue(page, htmlPages, group, renderOptions, pageSize);
+        if (!rendered) fallbackReason ??= 'the pages could not be told apart in the rendered document';
+        return rendered;
+      } catch (error) {
+        if (error instanceof ExportCancelledError) throw error;
+        throwIfCancelled(jobId);
+        console.error('Error while processing issue pages', group, error);
+        fallbackReason ??= error instanceof Error ? error.message : String(error);
+        return null;
+      }
+    };
+
+    // Tabs take the next issue document from the queue until it is empty
+    const processIssueQueue = async (browser: Browser, queue: number[][]) => {
+      const page = await browser.newPage();
+      await page.setViewport(viewport);
+
+      try {
+        for (let group = queue.shift(); group; group = queue.shift()) {
+          throwIfCancelled(jobId);
+          const rendered = await tryProcessIssue(page, group);
+          if (rendered) {
+            group.forEach((i, n) => storeRenderedPage(i, rendered[n]));
+            continue;
+          }
+
+          // One document per topic, or page by page if even that fails
+          for (const i of group) {
+            throwIfCancelled(jobId);
+            const [single] = (await tryProcessIssue(page, [i])) ?? [];
+            if (!single) fallbackPages++;
+            storeRenderedPage(i, single ?? await processPage(page, htmlPages[i], firstIndex + i, renderOptions));
+          }
+        }
+      } finally {
+        await page.close().catch(() => {});
+      }
+    };
+
+    const renderStart = Date.now();
+    const browser = await getBrowser();
+    const promises = [];
+    if (renderWholeIssues) {
+      const queue = groupIssuePages(htmlPages, pagesToRender);
+      for (let i = 0; i < Math.min(maxConcurrentIssues, queue.length); i++) {
+        promises.push(processIssueQueue(browser, queue));
+      }
+    } else {
+      for (let i = 0; i < pagesToRender.length; i += maxConcurrentProcesses) {
+        promises.push(processPageBatch(browser, pagesToRender.slice(i, i + maxConcurrentProcesses)));
+      }
+    }
+
+    await Promise.all(promises);
+    if (fallbackPages > 0) {
+      addProgressWarning(
+        jobId,
+        `Whole-chapter rendering failed for ${fallbackPages} of ${htmlPages.length} pages of a chapter, ` +
+        `they were rendered page by page (${fallbackReason})`
+      );
+    }
+    renderedPageCount += pagesToRender.length;
+    renderMs += Date.now() - renderStart;
+    return renderedPages;
+  };
+
+  const mergedPdfDoc = await PDFDocument.create();
+  mergedPdfDoc.registerFontkit(fontkit);
+
+  // One printed page number (or null) and the issue it came from per HTML page, in order
+  const printedPageNumbers: (number | null)[] = [];
+  const pageIssues: number[] = [];
+
+  // How many pdf pages each HTML page ended up on (more than one in split mode)
+  const pdfPageCounts: number[] = [];
+
+  // Kept by page ref, so it stays right when TOC and quiz pages are inserted in between
+  const pageLabelKinds = new Map<PDFRef, PageLabelKind>();
+
+  // Content is drawn once all pages are in place: with a gutter the horizontal position
+  // depends on whether the page ends up on the left or on the right.
+  const contentPlacements = new Map<PDFRef, (gutterShift: number) => void>();
+  const gutter = nativePageSize ? 0 : mmToPt(exportOptions.gutterMm);
+
+  // Links of the book HTML per content page, and the first pdf page of every HTML page as link target
+  const contentLinks = new Map<PDFRef, PlacedLink[]>();
+  const firstPageRefs: (PDFRef | null)[] = [];
+  const referencedResourceIds = new Set<number>();
+
+  try {
+    for (const { issue, pages } of issues) {
+      throwIfCancelled(jobId);
+
+      // Only the pages of this issue exist as HTML, the resources they used are released
+      const htmlPages: string[] = [];
+      for (const page of pages) {
+        htmlPages.push(buildTopicPage(reader, page));
+        pagesBuilt++;
+        reportPageProgress('process');
+      }
+      reader.release();
+      await new Promise(res => setImmediate(res))
+
+      const renderedPages = await renderIssuePages(htmlPages, printedPageNumbers.length);
+      // Images are shared by the pages of an issue, the next issue brings its own
+      imageTransformer.release();
+      throwIfCancelled(jobId);
+
+      for (let n = 0; n < htmlPages.length; n++) {
+        const htmlIndex = printedPageNumbers.length;
+        const printedNumber = getPageInfoNumber(htmlPages[n]);
+        printedPageNumbers.push(printedNumber);
+        pageIssues.push(issue);
+        pdfPageCounts.push(0);
+        firstPageRefs.push(null);
+
+        const rendered = renderedPages[n];
+        if (!rendered) continue;
+        addReferencedResourceIds(rendered, referencedResourceIds);
+
+        // Native pages keep their rendered size, so there is nothing to split
+        if (exportOptions.splitTallPages && !nativePageSize) {
+          // Size and slice ranges (from the top) of every rendered pdf page
+          const srcSlices: { width: number; height: number; ranges: [number, number][] }[] = [];
+          const embeddedSlices = await embedRenderedPdf(mergedPdfDoc, rendered.pdf, ({ width, height }, srcPageCount) => {
+            // Fit the width (without gutter), then cut the height into page-sized slices
+            const sliceHeight = pageSize.height / ((pageSize.width - gutter) / width);
+
+            // Break points are only meaningful if Puppeteer produced a single page
+            const ptPerPx = height / Math.max(rendered.height, 1);
+            const breakPoints = srcPageCount === 1
+              ? rendered.breakPoints.map((px) => px * ptPerPx)
+              : [];
+
+            const ranges = computeSliceRanges(height, sliceHeight, breakPoints);
+            srcSlices.push({ width, height, ranges });
+            return ranges.map(([sliceTop, sliceBottom]) => ({
+              left: 0,
+              right: width,
+              bottom: height - sliceBottom,
+              top: height - sliceTop,
+            }));
+          });
+
+          for (const [srcIndex, { width, height, ranges }] of srcSlices.entries()) {
+            const scale = (pageSize.width - gutter) / width;
+
+            for (const [sliceIndex, [sliceTop, sliceBottom]] of ranges.entries()) {
+              const embeddedSlice = embeddedSlices[srcIndex][sliceIndex];
+              const scaledWidth = width * scale;
+              const scaledHeight = (sliceBottom - sliceTop) * scale;
+
+              // Slices start at the top of the page so the reading flow continues
+              const page = mergedPdfDoc.addPage([pageSize.width, pageSize.height]);
+              const x = (pageSize.width - scaledWidth) / 2;
+              const y = pageSize.height - scaledHeight;
+              contentPlacements.set(page.ref, (gutterShift) => page.drawPage(embeddedSlice, {
+                x: x + gutterShift,
+                y,
+                width: scaledWidth,
+                height: scaledHeight,
+              }));
+              contentLinks.set(page.ref, placeLinks(rendered.links, {
+                ptPerPx: width / Math.max(rendered.width, 1),
+                srcTop: srcIndex * height + sliceTop,
+                srcBottom: srcIndex * height + sliceBottom,
+                x,
+                y,
+                scale,
+              }));
+
+              pageLabelKinds.set(page.ref, { kind: 'book', printedNumber });
+              firstPageRefs[htmlIndex] ??= page.ref;
+              pdfPageCounts[htmlIndex]++;
+            }
+          }
+
+          continue;
+        }
+
+        // Embed all pages from this buffer (should usually be a single page)
+        const embeddedPages = (await embedRenderedPdf(mergedPdfDoc, rendered.pdf, () => [undefined]))
+          .map(([embeddedPage]) => embeddedPage);
+
+        for (const [embeddedIndex, embeddedPage] of embeddedPages.entries()) {
+          const { width, height } = embeddedPage;
+
+          // Native: the page gets exactly the rendered size
+          const targetSize = nativePageSize ? { width, height } : pageSize;
+
+          // Compute scale so the entire original page fits into the target page (without gutter)
+          const scale = Math.min((targetSize.width - gutter) / width, targetSize.height / height);
+
+          const { width: scaledWidth, height: scaledHeight } = embeddedPage.scale(scale);
+
+          // Create a new page and center the embedded page on it
+          const page = mergedPdfDoc.addPage([targetSize.width, targetSize.height]);
+
+          const x = (targetSize.width - scaledWidth) / 2;
+          const y = (targetSize.height - scaledHeight) / 2;
+
+          contentPlacements.set(page.ref, (gutterShift) => page.drawPage(embeddedPage, {
+            x: x + gutterShift,
+            y,
+            width: scaledWidth,
+            height: scaledHeight,
+          }));
+          contentLinks.set(page.ref, placeLinks(rendered.links, {
+            ptPerPx: width / Math.max(rendered.width, 1),
+            srcTop: embeddedIndex * height,
+            srcBottom: (embeddedIndex + 1) * height,
+            x,
+            y,
+            scale,
+          }));
+
+          pageLabelKinds.set(page.ref, { kind: 'book', printedNumber });
+          firstPageRefs[htmlIndex] ??= page.ref;
+          pdfPageCounts[htmlIndex]++;
+        }
+      }
+    }
+  } finally {
+    if (browserLaunch) await browserLaunch.then((browser) => browser.close(), () => {});
+  }
+
+  console.log(`Render cache: ${cachedPageCount} of ${pageCount} pages cached`);
+  try {
+    const pruned = pruneRenderCache();
+    if (pruned.entries > 0) {
+      console.log(`Render cache: removed ${pruned.entries} old entries (${(pruned.bytes / 1024 / 1024).toFixed(1)} MB)`);
+    }
+  } catch (error) {
+    // The export itself does not depend on the cache
+    console.warn('Could not prune the render cache:', error);
+  }
+  if (renderedPageCount > 0) {
+    const seconds = renderMs / 1000;
+    console.log(
+      `Render: ${renderedPageCount} pages in ${seconds.toFixed(1)} s ` +
+      `(${renderWholeIssues ? 'whole issues' : 'page by page'}, ${(renderedPageCount / seconds).toFixed(1)} pages/s)`
+    );
+  }
+
+  setPhaseProgress(jobId, 'merge', 0.3);
+
+  throwIfCancelled(jobId);
+  const pageNum = extractPageNumbers(books, pageIssues, printedPageNumbers, pdfPageCounts);
+  const entries = await getTOCData();
+  const tocData = mergeTOCData(books, entries, pageNum);
+
+  // Pages that must start on the right, by ref as pages get inserted before them
+  const duplexStartRefs = exportOptions.duplexChapterStarts
+    ? getBookAndChapterStartRefs(mergedPdfDoc, pageNum, tocData)
+    : new Set<PDFRef>();
+  const bookStartRefs = getBookStartRefs(mergedPdfDoc, pageNum);
+  const courses = loadCourseMetadata(books);
+
+  let pdfDocWithToc: PDFDocument;
+  let updatedTocData: MergedTOCEntry[][];
+  if (generateTocPages) {
+    const result = await insertTocPagesForBooks(
+      mergedPdfDoc,
+      books,
+      tocData,
+      pageNum,
+      pageSize
+    );
+
+    pdfDocWithToc = result.pdfDocWithToc;
+    updatedTocData = result.updatedTocData;
+  } else {
+    pdfDocWithToc = mergedPdfDoc;
+    updatedTocData = tocData;
+  }
+
+  let pdfDocWithQuiz = pdfDocWithToc;
+  let tocDataAfterQuiz = updatedTocData;
+
+  throwIfCancelled(jobId);
+  setPhaseProgress(jobId, 'merge', 1);
+
+  if (exportQuiz) {
+    try {
+      setPhaseProgress(jobId, 'quiz-decrypt', 0);
+      await ensureQuizDecryptedTablesForExport(books);
+      setPhaseProgress(jobId, 'quiz-decrypt', 1);
+
+      const quizBooks = await loadQuizDataForBooks(books);
+      await transformQuizAssets(quizBooks, imageTransformer);
+      throwIfCancelled(jobId);
+      if (quizBooks.length > 0) {
+        setPhaseProgress(jobId, 'quiz-insert', 0);
+
+        const result = await insertQuizAndSolutionsAtEndOfEachBook(
+          pdfDocWithQuiz,
+          tocDataAfterQuiz,
+          books,
+          quizBooks,
+          pageSize,
+          (done, total) => setPhaseProgress(jobId, 'quiz-insert', done / total, { current: done, total }),
+          pageLabelKinds
+        );
+
+        pdfDocWithQuiz = result.pdfDoc;
+        tocDataAfterQuiz = result.updatedTocData;
+
+        setPhaseProgress(jobId, 'quiz-insert', 1);
+      }
+    } catch (err) {
+      // Cancellation is not a quiz failure, let it unwind the whole export
+      if (err instanceof ExportCancelledError) throw err;
+      console.error('Failed to insert quiz pages / solutions:', err);
+      addProgressWarning(jobId, 'Quiz pages could not be added, the PDF contains the book pages only');
+      // fail soft, keep main PDF
+    }
+  }
+
+  throwIfCancelled(jobId);
+  setPhaseProgress(jobId, 'finalize', 0);
+  if (exportOptions.coverPages) {
+    const result = await insertCoverPages(
+      pdfDocWithQuiz,
+      books,
+      courses,
+      tocDataAfterQuiz,
+      bookStartRefs,
+      pageLabelKinds,
+      imageTransformer
+    );
+    tocDataAfterQuiz = result.tocData;
+    // Covers open on the right, the book then starts on the next right-hand page
+    if (exportOptions.duplexChapterStarts) result.coverRefs.forEach((ref) => duplexStartRefs.add(ref));
+  }
+  if (duplexStartRefs.size > 0) {
+    tocDataAfterQuiz = insertDuplexBlankPages(pdfDocWithQuiz, tocDataAfterQuiz, duplexStartRefs, pageLabelKinds);
+  }
+  placeContentPages(pdfDocWithQuiz, contentPlacements, gutter);
+  const linkTargets = getLinkTargets(issues.flatMap(({ pages }) => pages), firstPageRefs);
+  if (exportOptions.attachMedia) {
+    linkTargets.attachments = embedAttachments(
+      pdfDocWithQuiz,
+      loadMediaAttachments([...referencedResourceIds])
+    );
+  }
+  addContentLinks(pdfDocWithQuiz, contentLinks, gutter, linkTargets);
+  await addHeaderFooterToPdf(pdfDocWithQuiz, books, tocDataAfterQuiz, pageLabelKinds, exportOptions.headerFooter);
+  const PdfDoc = await addOutlineToPdf(pdfDocWithQuiz, tocDataAfterQuiz);
+  addPageLabelsToPdf(PdfDoc, pageLabelKinds);
+  applyPdfMetadata(PdfDoc, courses);
+  addImageSavings(jobId, imageTransformer.originalBytes, imageTransformer.transformedBytes);
+  setPhaseProgress(jobId, 'finalize', 0.5);
+
+  // Embedded pages, fonts and images are only written on flush, the duplicates exist from then on
+  await PdfDoc.flush();
+  const dedupe = deduplicateFontsAndImages(PdfDoc);
+  console.log(`Dedupe: ${dedupe.removedObjects} font and image objects shared, ${Math.round(dedupe.savedBytes / 1024)} KB saved`);
+  return await PdfDoc.save({ useObjectStreams: true });
+}
+
+// Ink saver: black text on white, no fills, boxes or shadows.
+// Raster images are converted with sharp (transformPageImages), vector graphics are filtered here.
+const INK_SAVER_CSS = `
+  *, *::before, *::after {
+    color: #000 !important;
+    background-color: transparent !important;
+    background-image: none !important;
+    border-color: #000 !important;
+    box-shadow: none !important;
+    text-shadow: none !important;
+  }
+  svg, canvas, video { filter: grayscale(100%) !important; }
+`;
+
+// Settings of processPage that change how a page looks (all part of the render cache key)
+type PageRenderOptions = {
+  inkSaver: boolean;
+  imageTransformer: ImageTransformer;
+  // target resolution of the images, null keeps them as they are
+  imageDpi: number | null;
+  // only split mode cuts pages, the break point scan is skipped otherwise
+  collectBreakPoints: boolean;
+};
+
+/**
+ * Run the raster images of the loaded page through the image transformer.
+ * Images are downsampled to the size they are shown at, the layout is kept as it was.
+ */
+async function transformPageImages(page: Page, imageTransformer: ImageTransformer, imageDpi: number | null) {
+  const images = await page.evaluate(() => {
+    // Every distinct image once, with the largest size it is shown at (CSS px)
+    const found = new Map<string, { index: number; width: number; height: number }>();
+    document.querySelectorAll('img').forEach((img) => {
+      const src = img.getAttribute('src') ?? '';
+      if (!/^data:image\/(png|jpe?g|webp)[;,]/i.test(src) || img.width <= 0 || img.height <= 0) return;
+
+      let image = found.get(src);
+      if (!image) {
+        image = { index: found.size, width: 0, height: 0 };
+        found.set(src, image);
+      }
+      image.width = Math.max(image.width, img.width);
+      image.height = Math.max(image.height, img.height);
+      img.dataset.beook2pdfImage = String(image.index);
+    });
+    return [...found].map(([src, image]) => ({ src, ...image }));
+  });
+
+  const replacements: { index: number; src: string }[] = [];
+  for (const image of images) {
+    // The viewport is rendered at RENDER_DPI CSS px per inch of the output page
+    const maxSize = imageDpi
+      ? { width: (image.width * imageDpi) / RENDER_DPI, height: (image.height * imageDpi) / RENDER_DPI }
+      : null;
+    const src = await imageTransformer.transformDataUrl(image.src, maxSize);
+    if (src !== image.src) replacements.push({ index: image.index, src });
+  }
+  if (replacements.length === 0) return;
+
+  await page.evaluate(async (replacements) => {
+    const loads: Promise<void>[] = [];
+    for (const { index, src } of replacements) {
+      document.querySelectorAll<HTMLImageElement>(`img[data-beook2pdf-image="${index}"]`).forEach((img) => {
+        // Fix the current size, a downsampled image would otherwise be shown smaller
+        const style = getComputedStyle(img);
+        img.style.setProperty('width', style.width, 'important');
+        img.style.setProperty('height', style.height, 'important');
+        img.src = src;
+        loads.push(img.decode().catch(() => {}));
+      });
+    }
+    await Promise.all(loads);
+  }, replacements);
+}
+
+/**
+ * Render the given pages as one document with a single page.pdf (see issueRender).
+ * Returns one RenderedPage per page, or null when the result cannot be split into the pages.
+ * Throws when Chrome fails, the caller decides whether to fall back to single pages.
+ */
+async function processIssue(
+  page: Page,
+  htmlPages: string[],
+  indices: number[],
+  options: PageRenderOptions,
+  pageSize: PageSize
+): Promise<RenderedPage[] | null> {
+  const { inkSaver, imageTransformer, imageDpi } = options;
+  const html = buildIssueDocument(htmlPages, indices);
+  if (!html) return null;
+
+  await page.setContent(html, {
+    waitUntil: ['domcontentloaded', 'load'],
+  });
+
+  if (inkSaver) {
+    await page.addStyleTag({ content: INK_SAVER_CSS });
+  }
+  if (hasImageTransform(imageTransformer.transform)) {
+    await transformPageImages(page, imageTransformer, imageDpi);
+  }
+
+  // Chrome only writes absolute links as annotations. Media gets a marker link where it sits.
+  await page.evaluate((origin) => {
+    document.querySelectorAll('a[href]').forEach((a) => {
+      const href = a.getAttribute('href') || '';
+      if (!href || href.startsWith('#') || /^[a-z][a-z0-9+.-]*:/i.test(href)) return;
+      a.setAttribute('href', `${origin}/${href.replace(/^\/+/, '')}`);
+    });
+
+    document.querySelectorAll('audio, video, source, embed, object, iframe').forEach((el) => {
+      const src = el.getAttribute('src') || el.getAttribute('data') || '';
+      const resource = src.match(/\/pk\/\d+/);
+      const box = el.tagName.toUpperCase() === 'SOURCE' ? el.parentElement : el;
+      if (!resource || !box?.parentElement) return;
+
+      const marker = document.createElement('a');
+      marker.className = 'beook2pdf-media-marker';
+      marker.setAttribute('href', `${origin}${resource[0]}`);
+      box.parentElement.insertBefore(marker, box);
+    });
+  }, ISSUE_LINK_ORIGIN);
+
+  // Laid out at the viewport width like single pages, printed on the output page size
+  const viewport = getViewportForPageSize(pageSize);
+  const pdf = await page.pdf({
+    width: `${pageSize.width / 72}in`,
+    height: `${pageSize.height / 72}in`,
+    scale: 96 / RENDER_DPI,
+    printBackground: !inkSaver,
+    margin: { top: 0, right: 0, bottom: 0, left: 0 },
+  });
+
+  return await splitIssuePdf(pdf, indices.length, viewport.width);
+}
+
+async function processPage(
+  page: Page,
+  htmlContent: string,
+  index: number,
+  options: PageRenderOptions
+): Promise<RenderedPage> {
+  const { inkSaver, imageTransformer, imageDpi, collectBreakPoints } = options;
+
+  try {
+    await page.setContent(htmlContent, {
+      waitUntil: ['domcontentloaded', 'load'],
+    });
+
+    if (inkSaver) {
+      await page.addStyleTag({ content: INK_SAVER_CSS });
+    }
+
+    // Remove margins so the page is just the content canvas
+    await page.evaluate(() => {
+      const html = document.documentElement as HTMLElement;
+      const body = document.body as HTMLElement;
+
+      html.style.margin = '0';
+      html.style.padding = '0';
+      body.style.margin = '0';
+      body.style.padding = '0';
+
+      const selectorsToHide = [
+        '.navigationWrapper',
+        '.pageNavigationTable',
+        '.navigationMiniToc',
+        '.pageInfo',
+      ];
+
+      selectorsToHide.forEach((sel) => {
+        document.querySelectorAll(sel).forEach((el) => {
+          (el as HTMLElement).style.display = 'none';
+        });
+      });
+    });
+
+    if (hasImageTransform(imageTransformer.transform)) {
+      await transformPageImages(page, imageTransformer, imageDpi);
+    }
+
+    // Measure the true content canvas using both body & document
+    const dimensions = await page.evaluate(() => {
+      const body = document.body as HTMLElement;
+      const docEl = document.documentElement as HTMLElement;
+
+      const width = Math.max(
+        body.scrollWidth,
+        docEl.scrollWidth,
+        body.offsetWidth,
+        docEl.offsetWidth
+      );
+      const height = Math.max(
+        body.scrollHeight,
+        docEl.scrollHeight,
+        body.offsetHeight,
+        docEl.offsetHeight
+      );
+
+      return { width, height };
+    });
+
+    const contentWidth = Math.max(dimensions.width || 1, 1);
+    const contentHeight = Math.max(dimensions.height || 1, 1);
+
+    // Collect block boundaries where a tall page can be cut later on.
+    // A boundary is dropped if it would run through a line of text, an image
+    // or a table row.
+    const breakPoints = !collectBreakPoints ? [] : await page.evaluate(() => {
+      const blockDisplays = new Set(['block', 'flex', 'grid', 'table', 'list-item', 'flow-root']);
+      const atomicTags = new Set(['IMG', 'SVG', 'CANVAS', 'VIDEO', 'IFRAME', 'TR', 'FIGURE', 'PRE']);
+      const scrollY = window.scrollY;
+
+      const candidates: number[] = [];
+      const forbidden: [number, number][] = [];
+
+      const toRange = (el: Element): [number, number] => {
+        const rect = el.getBoundingClientRect();
+        return [rect.top + scrollY, rect.bottom + scrollY];
+      };
+
+      document.body.querySelectorAll('*').forEach((el) => {
+        const rect = el.getBoundingClientRect();
+        if (rect.height <= 0) return;
+
+        const display = getComputedStyle(el).display;
+        if (blockDisplays.has(display)) {
+          const [top, bottom] = toRange(el);
+          candidates.push(top, bottom);
+        }
+
+        if (atomicTags.has(el.tagName.toUpperCase())) {
+          forbidden.push(toRange(el));
+        }
+
+        // Text must stay in one piece: protect the closest block around it
+        const hasText = Array.from(el.childNodes).some(
+          (n) => n.nodeType === Node.TEXT_NODE && (n.textContent || '').trim().length > 0
+        );
+        if (hasText) {
+          let block: Element | null = el;
+          while (block && block !== document.body && getComputedStyle(block).display === 'inline') {
+            block = block.parentElement;
+          }
+          if (block && block !== document.body) {
+            forbidden.push(toRange(block));
+          }
+        }
+      });
+
+      const safe = candidates
+        .filter((y) => !forbidden.some(([top, bottom]) => y > top + 1 && y < bottom - 1))
+        .map((y) => Math.round(y));
+
+      return Array.from(new Set(safe)).sort((a, b) => a - b);
+    });
+
+    // Links and media sources with their rectangles relative to the content canvas
+    const links = await page.evaluate(() => {
+      const scrollX = window.scrollX;
+      const scrollY = window.scrollY;
+
+      const anchors = Array.from(document.querySelectorAll('a[href]')).flatMap((a) => {
+        const href = a.getAttribute('href') || '';
+        if (!href || href.startsWith('#') || /^javascript:/i.test(href)) return [];
+
+        const rects = Array.from(a.getClientRects())
+          .filter((rect) => rect.width > 0 && rect.height > 0)
+          .map((rect) => ({
+            x: rect.left + scrollX,
+            y: rect.top + scrollY,
+            width: rect.width,
+            height: rect.height,
+          }));
+        return rects.length > 0 ? [{ href, rects }] : [];
+      });
+
+      // Media is placed on its element, or the closest visible parent (audio without controls)
+      const media = Array.from(document.querySelectorAll('audio, video, source, embed, object, iframe')).flatMap((el) => {
+        const src = el.getAttribute('src') || el.getAttribute('data') || '';
+        if (!/\/pk\/\d+/.test(src)) return [];
+
+        let box: Element | null = el.tagName.toUpperCase() === 'SOURCE' ? el.parentElement : el;
+        while (box && box !== document.body) {
+          const rect = box.getBoundingClientRect();
+          if (rect.width > 0 && rect.height > 0) break;
+          box = box.parentElement;
+        }
+        if (!box) return [];
+
+        const rect = box.getBoundingClientRect();
+        return [{
+          href: src,
+          rects: [{
+            x: rect.left + scrollX,
+            y: rect.top + scrollY,
+            width: Math.max(rect.width, 1),
+            height: Math.max(rect.height, 1),
+          }],
+        }];
+      });
+
+      return [...anchors, ...media];
+    });
+
+    // Let Puppeteer render the page at its natural size – no scaling.
+    // This PDF now contains the full content.
+    const pdf = await page.pdf({
+      width: contentWidth,
+      height: contentHeight,
+      printBackground: !inkSaver,
+      margin: { top: 0, right: 0, bottom: 0, left: 0 },
+    });
+
+    return {
+      pdf: Buffer.from(pdf),
+      width: contentWidth,
+      height: contentHeight,
+      breakPoints,
+      links,
+    };
+  } catch (error) {
+    console.error('Error while processing page', index, error);
+    throw new Error('Failed to generate page PDF');
+  }
+}
+
+/**
+ * Cut a page of the given height into slices of at most sliceHeight.
+ * Each slice ends at the last break point that still fits on the page,
+ * with a hard cut as fallback when the content offers no usable break point.
+ * Returns [top, bottom] offsets measured from the top of the page.
+ */
+function computeSliceRanges(
+  totalHeight: number,
+  sliceHeight: number,
+  breakPoints: number[]
+): [number, number][] {
+  const ranges: [number, number][] = [];
+  if (!(sliceHeight > 0) || !(totalHeight > 0)) {
+    return [[0, Math.max(totalHeight, 0)]];
+  }
+
+  let top = 0;
+  // Small tolerance so rounding noise doesn't produce an almost empty last page
+  while (totalHeight - top > sliceHeight + 0.5) {
+    const limit = top + sliceHeight;
+    const minCut = top + sliceHeight * MIN_SLICE_FILL;
+
+    let cut = limit;
+    for (const bp of breakPoints) {
+      if (bp > limit) break;
+      if (bp >= minCut) cut = bp;
+    }
+
+    ranges.push([top, cut]);
+    top = cut;
+  }
+
+  ranges.push([top, totalHeight]);
+  return ranges;
+}
+
+export async function getTOCData(): Promise<TOCData[]> {
+  try {
+    const db = sqlite(getDbPath());
+
+    const statement = db.prepare(`
+                SELECT Z_PK, ZTITLE, ZPAGENUMBER, ZACCESSPATH, ZORDER, ZTOPICDEFINITION, ZISSUE, ZLEVEL
+                FROM ZILPTOPIC 
+                WHERE ZTOPICDELETED IS NULL AND ZTITLE IS NOT NULL AND TRIM(ZTITLE) != ''
+                ORDER BY Z_PK
+            `);
+
+    const rows = statement.all() as Array<{
+      Z_PK: number;
+      ZTITLE: string;
+      ZPAGENUMBER: number;
+      ZACCESSPATH: string;
+      ZORDER: number;
+      ZISSUE: number;
+      ZLEVEL: number;
+    }>;
+
+    const entries: TOCData[] = rows.map(row => ({
+      zpk: row.Z_PK,
+      title: row.ZTITLE,
+      pagenum: row.ZPAGENUMBER,
+      chapterSection: row.ZACCESSPATH,
+      zOrder: row.ZORDER,
+      zIssue: row.ZISSUE,
+      zLevel: row.ZLEVEL
+    }));
+
+    db.close();
+
+    return entries;
+  } catch (error) {
+    console.error('Error fetching TOC data:', error);
+    return [];
+  }
+}
+
+async function insertTocPagesForBooks(
+  mergedPdfDoc: PDFDocument,
+  books: Book[],
+  tocData: MergedTOCEntry[][],
+  pageNum: PageMapping[][],
+  pageSize: PageSize
+): Promise<{ pdfDocWithToc: PDFDocument; updatedTocData: MergedTOCEntry[][] }> {
+  // No TOC data -> nothing to insert
+  if (!tocData || tocData.length === 0) {
+    return { pdfDocWithToc: mergedPdfDoc, updatedTocData: tocData };
+  }
+
+  const toggledBooks = books.filter((b) => b.Toggled);
+  const groupCount = Math.min(toggledBooks.length, pageNum.length, tocData.length);
+
+  // Clone tocData so we can mutate safely
+  const updatedTocData: MergedTOCEntry[][] = tocData.map((bookEntries) =>
+    bookEntries.map(([pdfPage, bookPage, label, level]) => [
+      pdfPage,
+      bookPage,
+      label,
+      level,
+    ] as MergedTOCEntry)
+  );
+
+  const { context } = mergedPdfDoc;
+
+  type TocLinkJob = {
+    bookIdx: number;
+    entryIdx: number;        // index into updatedTocData[bookIdx]
+    tocPageIndex: number;    // 1-based global page index of the TOC page
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+  };
+
+  const tocLinkJobs: TocLinkJob[] = [];
+
+  const TITLE_FONT_SIZE = 14;
+  const ENTRY_FONT_SIZE = 10;
+  const LINE_HEIGHT = 14;
+  const MARGIN_LEFT = 48;
+  const MARGIN_RIGHT = 48;
+  const MARGIN_TOP = 72;
+  const MARGIN_BOTTOM = 72;
+  // 49 lines on A4, fewer on smaller formats
+  const MAX_LINES_PER_PAGE = Math.max(
+    1,
+    Math.floor((pageSize.height - MARGIN_TOP - MARGIN_BOTTOM) / LINE_HEIGHT)
+  );
+
+  const { bodyFont: tocFont, boldFont: tocTitleFont } = await getUnicodeFonts(mergedPdfDoc);
+  const tocLevel1Font = tocTitleFont;
+
+  type TocGap = { startBookPage: number; length: number };
+
+  // how many pages we’ve already inserted before the current book
+  let globalOffset = 0;
+
+  for (let bookIdx = 0; bookIdx < groupCount; bookIdx++) {
+    const book = toggledBooks[bookIdx];
+    const bookPageMappings = pageNum[bookIdx];
+    const bookTocEntries = updatedTocData[bookIdx];
+
+    // Build a *view-only* TOC for the page TOC:
+    // - assume first item is the book title -> skip it
+    // - shift all remaining levels down by 1 (clamped to >= 1)
+    // - this does NOT modify bookTocEntries / updatedTocData
+    type PageTocEntry = {
+      bookEntryIndex: number;   // index into updatedTocData[bookIdx]
+      entry: MergedTOCEntry;    // [pdfPage, bookPage, label, levelForLayout]
+    };
+
+    let pageTocEntries: PageTocEntry[] = [];
+    if (bookTocEntries && bookTocEntries.length > 0) {
+      for (let i = 1; i < bookTocEntries.length; i++) {
+        const [pdfPage, bookPage, label, level] = bookTocEntries[i];
+        const currentLevel =
+          typeof level === 'number' && Number.isFinite(level) ? level : 1;
+        const newLevel = Math.max(1, currentLevel - 1);
+
+        pageTocEntries.push({
+          bookEntryIndex: i,
+          entry: [pdfPage, bookPage, label, newLevel],
+        });
+      }
+    }
+
+    if (!bookPageMappings || bookPageMappings.length === 0 || !bookTocEntries) {
+      continue;
+    }
+
+    // Apply offset from TOC pages inserted for previous books
+    for (const entry of bookTocEntries) {
+      entry[0] += globalOffset;
+    }
+
+    // Determine the last printed page for this book
+    const printedPages = bookPageMappings
+      .map((m) => m[1])
+      .filter((p): p is number => p != null);
+
+    const lastPrintedPage = printedPages.length
+      ? Math.max(...printedPages)
+      : 0;
+
+    // Skip TOC page insertion if the book has fewer than 10 printed pages
+    if (lastPrintedPage < 10) {
+      continue;
+    }
+
+    if (!pageTocEntries || pageTocEntries.length === 0) {
+      continue;
+    }
+
+    // Find gaps in printed page numbers within the first 10 printed pages
+    const presentFirstTen = new Set<number>();
+    for (const [pdfPage, bookPage] of bookPageMappings) {
+      if (bookPage != null && bookPage >= 1 && bookPage <= 10) {
+        presentFirstTen.add(bookPage);
+      }
+    }
+
+    const gaps: TocGap[] = [];
+    let inGap = false;
+    let gapStart = 0;
+
+    for (let p = 1; p <= 10; p++) {
+      const occupied = presentFirstTen.has(p);
+      if (!occupied && !inGap) {
+        inGap = true;
+        gapStart = p;
+      } else if (occupied && inGap) {
+        gaps.push({ startBookPage: gapStart, length: p - gapStart });
+        inGap = false;
+      }
+    }
+    if (inGap) {
+      gaps.push({ startBookPage: gapStart, length: 11 - gapStart });
+    }
+
+    // Map "printed book page" -> "current global pdf page" (1-based)
+    const bookPageToGlobalPdfPage = new Map<number, number>();
+    for (const [pdfPage, bookPage] of bookPageMappings) {
+      if (bookPage != null) {
+        bookPageToGlobalPdfPage.set(bookPage, pdfPage + globalOffset);
+      }
+    }
+
+    // Decide where to insert the TOC pages for this book
+    let insertBeforePdfPage: number | null = null;
+
+    if (gaps.length > 0) {
+      const firstGap = gaps[0];
+      const firstPageAfterGap = firstGap.startBookPage + firstGap.length;
+      const pdfAfterGap = bookPageToGlobalPdfPage.get(firstPageAfterGap);
+
+      if (pdfAfterGap != null) {
+        insertBeforePdfPage = pdfAfterGap;
+      }
+    }
+
+    if (insertBeforePdfPage == null) {
+      // Fallback: append TOC at the end of this book
+      let lastBookPdfPage = 0;
+      for (const [pdfPage] of bookPageMappings) {
+        const globalPdfPage = pdfPage + globalOffset;
+        if (globalPdfPage > lastBookPdfPage) {
+          lastBookPdfPage = globalPdfPage;
+        }
+      }
+      insertBeforePdfPage = lastBookPdfPage + 1;
+    }
+
+    // Paginate this book's TOC entries for the *page TOC* (no book title, levels shifted)
+    type PagedEntry = {
+      bookEntryIndex: number;
+      entry: MergedTOCEntry;
+      lines: string[];
+    };
+
+    const paginatedEntries: PagedEntry[][] = [];
+    let currentPage: PagedEntry[] = [];
+    let currentLineCount = 0;
+
+    for (const pageEntry of pageTocEntries) {
+      const { entry, bookEntryIndex } = pageEntry;
+      const [_, __, label, level] = entry;
+      const safeLevel = level && level > 0 ? level : 1;
+      const indent = (safeLevel - 1) * 16;
+      const textX = MARGIN_LEFT + indent;
+      const entryFont = safeLevel === 1 ? tocLevel1Font : tocFont;
+
+      const maxTextWidth = pageSize.width - MARGIN_RIGHT - textX - 32;
+      const wrappedLines = wrapText(
+        label || '',
+        maxTextWidth,
+        entryFont,
+        ENTRY_FONT_SIZE
+      );
+      const neededLines = wrappedLines.length;
+
+      if (currentLineCount + neededLines > MAX_LINES_PER_PAGE) {
+        if (currentPage.length > 0) {
+          paginatedEntries.push(currentPage);
+        }
+        currentPage = [];
+        currentLineCount = 0;
+      }
+
+      currentPage.push({ bookEntryIndex, entry, lines: wrappedLines });
+      currentLineCount += neededLines;
+    }
+
+    if (currentPage.length > 0) {
+      paginatedEntries.push(currentPage);
+    }
+
+    const pagesInserted = paginatedEntries.length;
+
+    // Insert the TOC pages into the PDF
+    let insertIndex = insertBeforePdfPage - 1; // pdf-lib pages are 0-based
+    for (let pageIdx = 0; pageIdx < paginatedEntries.length; pageIdx++) {
+      const entriesForPage = paginatedEntries[pageIdx];
+      const page = mergedPdfDoc.insertPage(insertIndex, [pageSize.width, pageSize.height]);
+
+      let y = pageSize.height - MARGIN_TOP;
+
+      // Draw title on first TOC page for the book
+      if (pageIdx === 0) {
+        const rawTitle = (book as any)?.Titel;
+        let bookTitle = '';
+        if (Array.isArray(rawTitle)) {
+          bookTitle = rawTitle.join(' ');
+        } else if (typeof rawTitle === 'string') {
+          bookTitle = rawTitle;
+        } else if (rawTitle != null) {
+          bookTitle = String(rawTitle);
+        }
+
+        // Language-dependent TOC title
+        let lang = (book as any)?.Lang;
+        if (typeof lang !== "string") lang = "DE";     // default if null/undefined
+        lang = lang.trim().toUpperCase();
+
+        let tocTitle = "";
+        switch (lang) {
+          case "EN":
+            tocTitle = bookTitle
+              ? `Table of Contents – ${bookTitle}`
+              : "Table of Contents";
+            break;
+          case "FR":
+            tocTitle = bookTitle
+              ? `Table des Matières – ${bookTitle}`
+              : "Table des Matières";
+            break;
+          case "ES":
+            tocTitle = bookTitle
+              ? `Índice – ${bookTitle}`
+              : "Índice";
+            break;
+          case "IT":
+            tocTitle = bookTitle
+              ? `Indice – ${bookTitle}`
+              : "Indice";
+            break;
+          case "DE":
+          default:
+            tocTitle = bookTitle
+              ? `Inhaltsverzeichnis – ${bookTitle}`
+              : "Inhaltsverzeichnis";
+            break;
+        }
+
+        await drawText(page, tocTitle, {
+          x: MARGIN_LEFT,
+          y,
+          size: TITLE_FONT_SIZE,
+          font: tocTitleFont,
+          color: rgb(0, 0, 0),
+        });
+        y -= TITLE_FONT_SIZE + 10;
+      }
+
+      // Draw each TOC entry with wrapped lines, respecting MAX_LINES_PER_PAGE
+      for (const { entry, lines, bookEntryIndex } of entriesForPage) {
+        const [_, bookPage, _label, level] = entry;
+
+        if (y < MARGIN_BOTTOM) {
+          // Safety check; in theory line-based pagination should prevent this
+          break;
+        }
+
+        const safeLevel = level && level > 0 ? level : 1;
+        const indent = (safeLevel - 1) * 16;
+        const textX = MARGIN_LEFT + indent;
+
+        const entryFont = safeLevel === 1 ? tocLevel1Font : tocFont;
+
+        let firstLineY: number | null = null;
+        let lastLineY: number | null = null;
+
+        for (const line of lines) {
+          if (y < MARGIN_BOTTOM) break;
+
+          if (firstLineY === null) {
+            firstLineY = y;
+          }
+
+          await drawText(page, line, {
+            x: textX,
+            y,
+            size: ENTRY_FONT_SIZE,
+            font: entryFont,
+            color: rgb(0, 0, 0),
+          });
+
+          lastLineY = y;
+          y -= LINE_HEIGHT;
+        }
+
+        // Draw the page number aligned with the *last* drawn line for this entry
+        if (bookPage != null && lastLineY != null) {
+          const pageText = String(bookPage);
+          const pageWidth = tocFont.widthOfTextAtSize(pageText, ENTRY_FONT_SIZE);
+          const pageX = pageSize.width - MARGIN_RIGHT - pageWidth;
+
+          await drawText(page, pageText, {
+            x: pageX,
+            y: lastLineY,
+            size: ENTRY_FONT_SIZE,
+            font: tocFont,
+            color: rgb(0, 0, 0),
+          });
+        }
+
+        // Register link area for this TOC line (whole line clickable)
+        if (firstLineY != null && lastLineY != null) {
+          const x1 = MARGIN_LEFT;
+          const x2 = pageSize.width - MARGIN_RIGHT;
+          const yTop = firstLineY + ENTRY_FONT_SIZE + 2;
+          const yBottom = lastLineY - 2;
+
+          tocLinkJobs.push({
+            bookIdx,
+            entryIdx: bookEntryIndex,
+            tocPageIndex: insertBeforePdfPage + pageIdx, // 1-based global page number
+            x1,
+            y1: Math.max(Math.min(yBottom, yTop), 0),
+            y2: Math.min(Math.max(yBottom, yTop), pageSize.height),
+            x2,
+          });
+        }
+      }
+
+      insertIndex++;
+    }
+
+    // Shift this book's TOC entries for pages that come after the inserted block
+    for (const entry of bookTocEntries) {
+      if (entry[0] >= insertBeforePdfPage) {
+        entry[0] += pagesInserted;
+      }
+    }
+
+    // All subsequent books' pages are shifted by the number of pages we inserted
+    globalOffset += pagesInserted;
+  }
+
+  // After inserting all TOC pages and updating updatedTocData,
+  // create clickable link annotations for each TOC entry.
+  const pages = mergedPdfDoc.getPages();
+
+  for (const job of tocLinkJobs) {
+    const bookEntries = updatedTocData[job.bookIdx];
+    if (!bookEntries) continue;
+
+    const targetEntry = bookEntries[job.entryIdx];
+    if (!targetEntry) continue;
+
+    const targetPdfPageNum = Number(targetEntry[0]);
+    if (
+      !Number.isFinite(targetPdfPageNum) ||
+      targetPdfPageNum < 1 ||
+      targetPdfPageNum > pages.length
+    ) {
+      continue;
+    }
+
+    const tocPage = pages[job.tocPageIndex - 1];
+    const targetPage = pages[targetPdfPageNum - 1];
+    if (!tocPage || !targetPage) continue;
+
+    let annots = tocPage.node.lookup(PDFName.of('Annots'), PDFArray);
+    if (!annots) {
+      annots = context.obj([]) as PDFArray;
+      tocPage.node.set(PDFName.of('Annots'), annots);
+    }
+
+    const linkRef = context.register(
+      context.obj({
+        Type: PDFName.of('Annot'),
+        Subtype: PDFName.of('Link'),
+        Rect: [job.x1, job.y1, job.x2, job.y2],
+        Border: [0, 0, 0],
+        Dest: [targetPage.ref, 'XYZ', null, null, null],
+      })
+    );
+
+    annots.push(linkRef);
+  }
+
+  return { pdfDocWithToc: mergedPdfDoc, updatedTocData };
+}
+
+// TODO: Ordering is borked Bug: FACH 062 PPL FUNKNAVIGATION (RADIONAVIGATION) overview sometimes trims entire 6th chapter and
+//      Angang is not always first as compared to Seite (95)
+//      overview item is probably not trimmed but part of the wrong toc item. The entire 6th chapter is inside Anhang or Seite (75)
+//      this points to an ordering bug but since the beook app gets its top level toc item from somewhere else than (Bug:) ZILPTOPIC
+//      this is complicated further.
+export async function addOutlineToPdf(
+  mergedPdfDoc: PDFDocument,
+  tocdata: MergedTOCEntry[][]
+): Promise<PDFDocument> {
+  // Nothing to do
+  if (!tocdata || tocdata.length === 0) {
+    return mergedPdfDoc;
+  }
+
+  const pages = mergedPdfDoc.getPages();
+  const pageRefs = pages.map((p) => p.ref);
+
+  const { context, catalog } = mergedPdfDoc;
+
+  type OutlineNode = {
+    title: string;
+    pageIndex: number;   // 0-based index into pageRefs[]
+    level: number;       // hierarchy level, 1 = top-level
+    children: OutlineNode[];
+  };
+
+  // Global root of the outline tree
+  const globalRoot: OutlineNode = {
+    title: '__ROOT__',
+    pageIndex: -1,
+    level: 0,
+    children: [],
+  };
+
+  // Build a small tree for each book (group) and append to the global root.
+  for (const group of tocdata) {
+    if (!group || group.length === 0) continue;
+
+    const groupRoot: OutlineNode = {
+      title: '__GROUP_ROOT__',
+      pageIndex: -1,
+      level: 0,
+      children: [],
+    };
+
+    const stack: OutlineNode[] = [groupRoot];
+
+    for (const [pdfPage, _bookPage, label, rawLevel] of group) {
+      if (pdfPage == null) continue;
+
+      // Convert global 1-based PDF page number to 0-based index
+      const pageIndex = pdfPage - 1;
+      if (pageIndex < 0 || pageIndex >= pageRefs.length) {
+        // Out-of-range – skip this entry
+        continue;
+      }
+
+      let level = Number(rawLevel);
+      if (!Number.isFinite(level) || level < 1) level = 1;
+
+      const node: OutlineNode = {
+        title: (label ?? '').trim(),
+        pageIndex,
+        level,
+        children: [],
+      };
+
+      // Pop stack until the top has a smaller level than the new node
+      while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+        stack.pop();
+      }
+
+      const parent = stack[stack.length - 1] ?? groupRoot;
+      parent.children.push(node);
+      stack.push(node);
+    }
+
+    if (groupRoot.children.length > 0) {
+      globalRoot.children.push(...groupRoot.children);
+    }
+  }
+
+  // If nothing valid ended up in the tree, leave the PDF as-is.
+  if (globalRoot.children.length === 0) {
+    return mergedPdfDoc;
+  }
+
+  // Recursive builder, adapted from mergeWithOutlines
+  function buildOutlineTree(
+    nodes: OutlineNode[],
+    parentRef: PDFRef
+  ): { firstRef: PDFRef | null; lastRef: PDFRef | null; count: number } {
+    if (!nodes || nodes.length === 0) {
+      return { firstRef: null, lastRef: null, count: 0 };
+    }
+
+    let firstRef: PDFRef | null = null;
+    let lastRef: PDFRef | null = null;
+    let prevRef: PDFRef | null = null;
+    let totalCount = 0;
+
+    nodes.forEach((node) => {
+      const pageRef = pageRefs[node.pageIndex];
+      if (!pageRef) {
+        // If the page index is somehow invalid, skip this node (and its subtree)
+        return;
+      }
+
+      const thisRef = context.nextRef();
+      if (!firstRef) firstRef = thisRef;
+      lastRef = thisRef;
+
+      const destArray = context.obj([
+        pageRef,
+        PDFName.of('XYZ'),
+        PDFNull,
+        PDFNull,
+        PDFNull,
+      ]);
+
+      const {
+        firstRef: childFirst,
+        lastRef: childLast,
+        count: childCount,
+      } = buildOutlineTree(node.children, thisRef);
+
+      const outlineDictEntries: Record<string, any> = {
+        // ensures titles are safely escaped according to the PDF spec §7.3.4.2 “Literal Strings”.
+        // prevents pdf-lib from creating malformed pdf outlines
+        Title: PDFString.of(
+          node.title.replace(/([()\\])/g, '\\$1')
+        ),
+        Parent: parentRef,
+        Dest: destArray,
+      };
+
+      if (prevRef) {
+        outlineDictEntries.Prev = prevRef;
+      }
+      if (childCount > 0) {
+        outlineDictEntries.First = childFirst;
+        outlineDictEntries.Last = childLast;
+        outlineDictEntries.Count = PDFNumber.of(childCount);
+      }
+
+      context.assign(thisRef, context.obj(outlineDictEntries));
+
+      if (prevRef) {
+        const prevDict = context.lookup(prevRef, PDFDict);
+        prevDict.set(PDFName.of('Next'), thisRef);
+      }
+
+      prevRef = thisRef;
+      totalCount += 1 + childCount;
+    });
+
+    return { firstRef, lastRef, count: totalCount };
+  }
+
+  const outlinesDictRef = context.nextRef();
+  const { firstRef, lastRef, count } = buildOutlineTree(
+    globalRoot.children,
+    outlinesDictRef
+  );
+
+  if (!firstRef || !lastRef || count === 0) {
+    // Nothing meaningful was built, don't touch the catalog
+    return mergedPdfDoc;
+  }
+
+  const outlinesDict = context.obj({
+    Type: PDFName.of('Outlines'),
+    First: firstRef,
+    Last: lastRef,
+    Count: PDFNumber.of(count),
+  });
+
+  context.assign(outlinesDictRef, outlinesDict);
+  catalog.set(PDFName.of('Outlines'), outlinesDictRef);
+
+  return mergedPdfDoc;
+}
+
+/**
+ * First page of every book and of every top-level chapter (the highest TOC level below the book title).
+ * Page numbers in pageNum / tocData refer to the merged content pages, before any insertion.
+ */
+// First page of every book group (null for empty groups), in group order
+function getBookStartRefs(pdfDoc: PDFDocument, pageNum: PageMapping[][]): (PDFRef | null)[] {
+  const pages = pdfDoc.getPages();
+  return pageNum.map((group) => {
+    const pdfPage = group[0]?.[0];
+    return pdfPage != null && pdfPage >= 1 && pdfPage <= pages.length ? pages[pdfPage - 1].ref : null;
+  });
+}
+
+function getBookAndChapterStartRefs(
+  pdfDoc: PDFDocument,
+  pageNum: PageMapping[][],
+  tocData: MergedTOCEntry[][]
+): Set<PDFRef> {
+  const pages = pdfDoc.getPages();
+  const refs = new Set<PDFRef>();
+  const addPage = (pdfPage: number | undefined) => {
+    if (pdfPage != null && pdfPage >= 1 && pdfPage <= pages.length) refs.add(pages[pdfPage - 1].ref);
+  };
+
+  for (const ref of getBookStartRefs(pdfDoc, pageNum)) {
+    if (ref) refs.add(ref);
+  }
+
+  for (const group of tocData) {
+    // First entry is the book title (see mergeTOCData)
+    const chapters = group.slice(1);
+    if (chapters.length === 0) continue;
+    const topLevel = Math.min(...chapters.map(([, , , level]) => level));
+    for (const [pdfPage, , , level] of chapters) {
+      if (level === topLevel) addPage(pdfPage);
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Insert a blank page before every start page that would land on a left-hand (even) page.
+ * Returns tocData with page numbers moved past the inserted blanks. TOC links point at page
+ * refs and page labels are kept by ref, so both stay valid without changes.
+ */
+function insertDuplexBlankPages(
+  pdfDoc: PDFDocument,
+  tocData: MergedTOCEntry[][],
+  startRefs: Set<PDFRef>,
+  pageLabelKinds: Map<PDFRef, PageLabelKind>
+): MergedTOCEntry[][] {
+  const pagesBefore = pdfDoc.getPages();
+  const entryRefs = getTocEntryRefs(pdfDoc, tocData);
+
+  let inserted = 0;
+  pagesBefore.forEach((page, index) => {
+    const pageIndex = index + inserted;   // 0-based, so odd index = even page number
+    if (!startRefs.has(page.ref) || pageIndex % 2 === 0) return;
+
+    const { width, height } = page.getSize();
+    const blank = pdfDoc.insertPage(pageIndex, [width, height]);
+    pageLabelKinds.set(blank.ref, { kind: 'blank' });
+    inserted++;
+  });
+
+  if (inserted === 0) return tocData;
+
+  return renumberTocEntries(pdfDoc, tocData, entryRefs);
+}
+
+// Page ref of every TOC entry, so the entries can be renumbered after inserting pages
+function getTocEntryRefs(pdfDoc: PDFDocument, tocData: MergedTOCEntry[][]): (PDFRef | null)[][] {
+  const pages = pdfDoc.getPages();
+  return tocData.map((group) => group.map(([pdfPage]) => pages[pdfPage - 1]?.ref ?? null));
+}
+
+function renumberTocEntries(
+  pdfDoc: PDFDocument,
+  tocData: MergedTOCEntry[][],
+  entryRefs: (PDFRef | null)[][]
+): MergedTOCEntry[][] {
+  const pageNumberByRef = new Map<PDFRef, number>();
+  pdfDoc.getPages().forEach((page, index) => pageNumberByRef.set(page.ref, index + 1));
+
+  return tocData.map((group, groupIdx) =>
+    group.map(([pdfPage, bookPage, label, level], entryIdx) => {
+      const ref = entryRefs[groupIdx]?.[entryIdx];
+      const moved = ref ? pageNumberByRef.get(ref) : undefined;
+      return [moved ?? pdfPage, bookPage, label, level] as MergedTOCEntry;
+    })
+  );
+}
+
+/**
+ * Insert a cover page in front of every book and, for more than one book, a compilation
+ * cover in front of everything. The book title entry of the outline then opens the cover.
+ */
+async function insertCoverPages(
+  pdfDoc: PDFDocument,
+  books: Book[],
+  courses: CourseMetadata[],
+  tocData: MergedTOCEntry[][],
+  bookStartRefs: (PDFRef | null)[],
+  pageLabelKinds: Map<PDFRef, PageLabelKind>,
+  imageTransformer: ImageTransformer
+): Promise<{ tocData: MergedTOCEntry[][]; coverRefs: PDFRef[] }> {
+  const toggledBooks = books.filter((b) => b.Toggled);
+  const coverImages = loadCoverImages(books);
+  // loadCourseMetadata returns one entry per toggled book, in the same order
+  const coverBooks: CoverBook[] = toggledBooks.map((book, i) => ({
+    courseId: courses[i]?.courseId ?? book.CourseName ?? '',
+    isbn: courses[i]?.isbn ?? book.Refrence ?? '',
+    title: courses[i]?.title ?? book.CourseName ?? '',
+    lang: courses[i]?.lang ?? book.Lang ?? '',
+    author: courses[i]?.author ?? null,
+    image: coverImages.get(book.BookID) ?? null,
+  }));
+  for (const coverBook of coverBooks) {
+    if (coverBook.image) {
+      coverBook.image = await imageTransformer.transformImage(coverBook.image);
+    }
+  }
+
+  const entryRefs = getTocEntryRefs(pdfDoc, tocData);
+  const fonts = await getUnicodeFonts(pdfDoc);
+  const coverRefs: PDFRef[] = [];
+  const groupCoverRefs: (PDFRef | null)[] = [];
+
+  for (let groupIdx = 0; groupIdx < bookStartRefs.length; groupIdx++) {
+    const startRef = bookStartRefs[groupIdx];
+    const coverBook = coverBooks[groupIdx];
+    const startIndex = startRef ? pdfDoc.getPages().findIndex((page) => page.ref === startRef) : -1;
+    if (startIndex === -1 || !coverBook) {
+      groupCoverRefs.push(null);
+      continue;
+    }
+
+    const { width, height } = pdfDoc.getPage(startIndex).getSize();
+    const cover = pdfDoc.insertPage(startIndex, [width, height]);
+    await drawBookCover(pdfDoc, cover, fonts, coverBook);
+    pageLabelKinds.set(cover.ref, { kind: 'cover' });
+    coverRefs.push(cover.ref);
+    groupCoverRefs.push(cover.ref);
+  }
+
+  if (coverRefs.length > 1) {
+    const { width, height } = pdfDoc.getPage(0).getSize();
+    const compilation = pdfDoc.insertPage(0, [width, height]);
+    await drawCompilationCover(compilation, fonts, coverBooks);
+    pageLabelKinds.set(compilation.ref, { kind: 'cover' });
+    coverRefs.unshift(compilation.ref);
+  }
+
+  // First entry of a group is the book title (see mergeTOCData)
+  groupCoverRefs.forEach((ref, groupIdx) => {
+    if (ref && entryRefs[groupIdx]?.length) entryRefs[groupIdx][0] = ref;
+  });
+
+  return { tocData: renumberTocEntries(pdfDoc, tocData, entryRefs), coverRefs };
+}
+
+/**
+ * Draw the rendered content onto the content pages. Without gutter the content is centered,
+ * with gutter it moves half the gutter away from the binding: right on odd, left on even pages.
+ */
+function placeContentPages(
+  pdfDoc: PDFDocument,
+  contentPlacements: Map<PDFRef, (gutterShift: number) => void>,
+  gutter: number
+) {
+  pdfDoc.getPages().forEach((page, index) => {
+    const place = contentPlacements.get(page.ref);
+    if (!place) return;
+    place(getGutterShift(index, gutter));
+  });
+}
+
+// Horizontal shift of the content of the page with the given 0-based index
+function getGutterShift(pageIndex: number, gutter: number): number {
+  const isOddPage = pageIndex % 2 === 0;
+  return isOddPage ? gutter / 2 : -gutter / 2;
+}
+
+// Resource and topic ids of every topic page mapped to its first pdf page
+function getLinkTargets(pages: TopicPageRow[], firstPageRefs: (PDFRef | null)[]): LinkTargets {
+  const targets: LinkTargets = { byResource: new Map(), byTopic: new Map(), attachments: new Map() };
+
+  pages.forEach(({ zpk, topic }, htmlIndex) => {
+    const ref = firstPageRefs[htmlIndex];
+    if (!ref) return;
+
+    if (!targets.byResource.has(zpk)) targets.byResource.set(zpk, ref);
+    if (!targets.byTopic.has(topic)) targets.byTopic.set(topic, ref);
+  });
+
+  return targets;
+}
+
+// Add every resource id (.../pk/<id>) the links and media elements of a page point to
+function addReferencedResourceIds(rendered: RenderedPage, ids: Set<number>) {
+  for (const { href } of rendered.links ?? []) {
+    const match = href.match(/\/pk\/(\d+)/);
+    if (match) ids.add(Number(match[1]));
+  }
+}
+
+/**
+ * Put the links of the book HTML back onto the content pages, shifted like the content.
+ */
+function addContentLinks(
+  pdfDoc: PDFDocument,
+  contentLinks: Map<PDFRef, PlacedLink[]>,
+  gutter: number,
+  targets: LinkTargets
+) {
+  pdfDoc.getPages().forEach((page, index) => {
+    const links = contentLinks.get(page.ref);
+    if (!links || links.length === 0) return;
+    addLinkAnnotations(pdfDoc, page, links, getGutterShift(index, gutter), targets);
+  });
+}
+
+/**
+ * Draw the header / footer templates on every page, once all TOC and quiz pages are in place.
+ * Book and chapter title come from the TOC group and the last TOC entry starting on or before the page.
+ */
+async function addHeaderFooterToPdf(
+  pdfDoc: PDFDocument,
+  books: Book[],
+  tocData: MergedTOCEntry[][],
+  pageLabelKinds: Map<PDFRef, PageLabelKind>,
+  config: HeaderFooterConfig
+) {
+  if (!hasHeaderFooter(config)) return;
+
+  const toggledBooks = books.filter((b) => b.Toggled);
+  const pages = pdfDoc.getPages();
+  const { bodyFont } = await getUnicodeFonts(pdfDoc);
+  const exportDate = new Date();
+
+  // First pdf page of every book group, groups are in page order
+  const groupStarts = tocData.map((group) => getMinPdfPageOfBookGroup(group));
+
+  for (const [pageIndex, page] of pages.entries()) {
+    const pdfPage = pageIndex + 1;
+
+    let groupIdx = 0;
+    groupStarts.forEach((start, i) => {
+      if (start != null && start <= pdfPage) groupIdx = i;
+    });
+    const group = tocData[groupIdx] ?? [];
+
+    // First entry of a group is the book title (see mergeTOCData)
+    let chapterTitle = '';
+    for (let i = 1; i < group.length; i++) {
+      if (group[i][0] <= pdfPage) chapterTitle = group[i][2];
+    }
+
+    const lang = (toggledBooks[groupIdx]?.Lang || 'de').trim().toLowerCase();
+    let date: string;
+    try {
+      date = exportDate.toLocaleDateString(lang);
+    } catch {
+      date = exportDate.toLocaleDateString('de');
+    }
+
+    const labelKind = pageLabelKinds.get(page.ref);
+    // Blank duplex pages stay empty, covers have their own layout
+    if (labelKind?.kind === 'blank' || labelKind?.kind === 'cover') continue;
+
+    await drawHeaderFooter(page, config, bodyFont, {
+      bookTitle: group[0]?.[2] ?? '',
+      chapterTitle,
+      printedPage: labelKind?.kind === 'book' ? labelKind.printedNumber : null,
+      pdfPage,
+      totalPages: pages.length,
+      date,
+    });
+  }
+}
+
+type PageLabelRange = {
+  style: 'D' | 'r' | 'A' | null;  // decimal, lower roman, upper letters, none (prefix only)
+  prefix: string;
+  start: number;
+};
+
+/**
+ * Add a /PageLabels number tree so the viewer shows the printed page numbers:
+ *   book pages:      printed number (42), unnumbered pages A, B, ...
+ *   TOC pages:       i, ii, iii, ... per TOC block
+ *   quiz/solutions:  Q-1, Q-2, ... per book
+ *   duplex blanks:   – (no number)
+ *   cover pages:     Cover
+ * Pages that repeat or skip a printed number (split tall pages) get it as a fixed label.
+ */
+function addPageLabelsToPdf(pdfDoc: PDFDocument, pageLabelKinds: Map<PDFRef, PageLabelKind>) {
+  const pages = pdfDoc.getPages();
+  if (pages.length === 0) return;
+
+  // Label of every page on its own, merged into ranges below
+  const labels: PageLabelRange[] = [];
+  let tocCounter = 0;
+  let quizCounter = 0;
+  let unnumberedCounter = 0;
+  let previousKind: PageLabelKind['kind'] | 'toc' | null = null;
+
+  for (const page of pages) {
+    const labelKind = pageLabelKinds.get(page.ref);
+    const kind = labelKind?.kind ?? 'toc';
+
+    if (kind !== previousKind) {
+      if (kind === 'toc') tocCounter = 0;
+      if (kind === 'quiz') quizCounter = 0;
+    }
+
+    if (labelKind?.kind === 'book') {
+      const printed = labelKind.printedNumber;
+      if (printed != null && Number.isInteger(printed) && printed >= 1) {
+        labels.push({ style: 'D', prefix: '', start: printed });
+        unnumberedCounter = 0;
+      } else if (printed != null) {
+        labels.push({ style: null, prefix: String(printed), start: 1 });
+      } else {
+        unnumberedCounter++;
+        labels.push({ style: 'A', prefix: '', start: unnumberedCounter });
+      }
+    } else if (kind === 'blank') {
+      labels.push({ style: null, prefix: '–', start: 1 });
+    } else if (kind === 'cover') {
+      labels.push({ style: null, prefix: 'Cover', start: 1 });
+    } else if (kind === 'quiz') {
+      quizCounter++;
+      labels.push({ style: 'D', prefix: 'Q-', start: quizCounter });
+    } else {
+      tocCounter++;
+      labels.push({ style: 'r', prefix: '', start: tocCounter });
+    }
+
+    previousKind = kind;
+  }
+
+  // Merge pages that simply count on into one range
+  const ranges: { pageIndex: number; range: PageLabelRange }[] = [];
+  labels.forEach((label, pageIndex) => {
+    const last = ranges[ranges.length - 1];
+    const continues =
+      last != null &&
+      label.style != null &&
+      last.range.style === label.style &&
+      last.range.prefix === label.prefix &&
+      last.range.start + (pageIndex - last.pageIndex) === label.start;
+
+    if (continues) return;
+
+    // A repeated decimal number (split page) cannot be expressed as a counting range
+    const repeated = last != null && label.style === 'D' && labels[pageIndex - 1]?.style === 'D' &&
+      labels[pageIndex - 1].prefix === label.prefix && labels[pageIndex - 1].start === label.start;
+
+    ranges.push({
+      pageIndex,
+      range: repeated ? { style: null, prefix: `${label.prefix}${label.start}`, start: 1 } : label,
+    });
+  });
+
+  const { context } = pdfDoc;
+  const nums: (number | PDFDict)[] = [];
+  for (const { pageIndex, range } of ranges) {
+    const dict = context.obj({}) as PDFDict;
+    dict.set(PDFName.of('Type'), PDFName.of('PageLabel'));
+    if (range.style) {
+      dict.set(PDFName.of('S'), PDFName.of(range.style));
+      if (range.start !== 1) dict.set(PDFName.of('St'), PDFNumber.of(range.start));
+    }
+    if (range.prefix) dict.set(PDFName.of('P'), PDFHexString.fromText(range.prefix));
+    nums.push(pageIndex, dict);
+  }
+
+  pdfDoc.catalog.set(PDFName.of('PageLabels'), context.obj({ Nums: nums }));
+}
+
+/**
+ * Group the pdf pages by the toggled book their HTML page came from, one group per toggled book
+ * (empty if none of its pages are exported). pageIssues holds the issue of every HTML page.
+ */
+function extractPageNumbers(
+  books: Book[],
+  pageIssues: number[],
+  printedPageNumbers: (number | null)[],
+  pdfPageCounts?: number[]
+): PageMapping[][] {
+  const toggledBooks = books.filter((b) => b.Toggled);
+  const result: PageMapping[][] = toggledBooks.map(() => []);
+  const issueToBookIndex = getIssueToBookIndex(toggledBooks);
+
+  let pdfPage = 1; // PDF pages are 1-based and just count up globally
+
+  for (let htmlIndex = 0; htmlIndex < printedPageNumbers.length; htmlIndex++) {
+    const issue = pageIssues[htmlIndex];
+    const bookPage = printedPageNumbers[htmlIndex];
+    const group = result[issueToBookIndex.get(issue) ?? -1];
+
+    // push [pdf page number, book page number, issue] for every pdf page this html page produced
+    // (split mode can put one printed page on several pdf pages)
+    const pagesForHtml = pdfPageCounts ? pdfPageCounts[htmlIndex] ?? 0 : 1;
+    for (let i = 0; i < pagesForHtml; i++) {
+      group?.push([pdfPage, bookPage, issue]);
+      pdfPage += 1;
+    }
+  }
+
+  return result;
+}
+
+// Map each issue number (ZISSUE / ZISSUEPRODUCT) to the index of its book among the toggled books
+function getIssueToBookIndex(toggledBooks: Book[]): Map<number, number> {
+  const issueToBookIndex = new Map<number, number>();
+  toggledBooks.forEach((book, bookIdx) => {
+    for (const issue of book.Issue) {
+      issueToBookIndex.set(Number(issue), bookIdx);
+    }
+  });
+  return issueToBookIndex;
+}
+
+function mergeTOCData(
+  books: Book[],
+  entries: TOCData[],
+  pageNum: PageMapping[][]
+): MergedTOCEntry[][] {
+  // Only books that are actually exported
+  const toggledBooks = books.filter((b) => b.Toggled);
+
+  // pageNum has one group per toggled book, in order (see extractPageNumbers)
+  const groupCount = Math.min(toggledBooks.length, pageNum.length);
+  const issueToBookIndex = getIssueToBookIndex(toggledBooks);
+
+  // For each issue: map "book printed page" -> "global pdf page"
+  const pageMapPerIssue = new Map<number, Map<number, number>>();
+  for (const group of pageNum) {
+    for (const [pdfPage, bookPage, issue] of group) {
+      if (bookPage == null) continue;
+      const bp = Number(bookPage);
+      if (!Number.isFinite(bp)) continue;
+
+      let m = pageMapPerIssue.get(issue);
+      if (!m) {
+        m = new Map<number, number>();
+        pageMapPerIssue.set(issue, m);
+      }
+
+      // If multiple pdf pages share the same printed page, keep the first occurrence
+      if (!m.has(bp)) m.set(bp, pdfPage);
+    }
+  }
+
+  type TempEntry = {
+    pdfPage: number;
+    bookPage: number;
+    label: string;
+    level: number;
+    order: number;
+  };
+
+  const tempResult: TempEntry[][] = Array.from(
+    { length: groupCount },
+    () => []
+  );
+
+  for (const entry of entries) {
+    const bookIdx = issueToBookIndex.get(Number(entry.zIssue));
+    if (bookIdx === undefined || bookIdx >= groupCount) continue; // TOC for a non-exported book
+
+    const pageMap = pageMapPerIssue.get(Number(entry.zIssue));
+    if (!pageMap) continue; // no page of that issue is in the export
+
+    // ZPAGENUMBER comes from SQLite as text -> convert to number
+    const bookPageNum = Number(entry.pagenum);
+    if (!Number.isFinite(bookPageNum)) continue;
+
+    const pdfPage = pageMap.get(bookPageNum);
+    if (pdfPage === undefined) continue; // that printed page isn't in the export
+
+    const label =
+      (entry.chapterSection ? entry.chapterSection + ' ' : '') +
+      entry.title;
+
+    tempResult[bookIdx].push({
+      pdfPage,
+      bookPage: bookPageNum,
+      label,
+      level: entry.zLevel,
+      order: entry.zOrder,
+    });
+  }
+
+  // After you've built tempResult[bookIdx] but before sorting:
+  for (const bookEntries of tempResult) {
+    for (let i = bookEntries.length - 1; i >= 0; i--) {
+      const e = bookEntries[i];
+
+      // Must have a valid mapped PDF page
+      if (!Number.isFinite(e.pdfPage) || e.pdfPage <= 0) {
+        bookEntries.splice(i, 1);
+        continue;
+      }
+
+      // Book page sanity
+      if (!Number.isFinite(e.bookPage) || e.bookPage <= 0) {
+        bookEntries.splice(i, 1);
+        continue;
+      }
+
+      // Label sanity
+      if (!e.label || typeof e.label !== 'string' || e.label.trim().length === 0) {
+        bookEntries.splice(i, 1);
+        continue;
+      }
+
+      e.label = e.label.trim();
+    }
+  }
+
+  // Sort each book’s TOC entries by position in the export, book page, then by ZORDER
+  const result: MergedTOCEntry[][] = tempResult.map((bookEntries, bookIdx) => {
+    bookEntries.sort((a, b) => {
+      if (a.pdfPage !== b.pdfPage) return a.pdfPage - b.pdfPage;
+      if (a.bookPage !== b.bookPage) return a.bookPage - b.bookPage;
+      if (a.order !== b.order) return a.order - b.order;
+      return a.label.localeCompare(b.label);
+    });
+
+    // SPECIAL CASE:
+    // If the first 2 entries are on the same page and the first one
+    // is "less top-level" (higher order or same order but deeper level),
+    // drop the first one. This filters out "FACH 010" etc.
+    if (bookEntries.length >= 2) {
+      const first = bookEntries[0];
+      const second = bookEntries[1];
+
+      const samePage =
+        first.bookPage === second.bookPage &&
+        first.pdfPage === second.pdfPage;
+
+      const firstHasHigherOrder = first.order > second.order;
+      const sameOrderFirstDeeper =
+        first.order === second.order && first.level > second.level;
+
+      if (samePage && (firstHasHigherOrder || sameOrderFirstDeeper)) {
+        bookEntries.shift();
+      }
+    }
+
+    // INSERT BOOK TITLE AS TOP-LEVEL ENTRY + SHIFT LEVELS
+    if (bookEntries.length > 0) {
+      const first = bookEntries[0];
+
+      // Titel can be string, string[], or something else -> normalise
+      const rawTitle = (toggledBooks[bookIdx] as any)?.Titel;
+
+      let bookTitle = '';
+      if (Array.isArray(rawTitle)) {
+        // take first entry if it's an array
+        bookTitle = String(rawTitle[0] ?? '');
+      } else if (typeof rawTitle === 'string') {
+        bookTitle = rawTitle;
+      } else if (rawTitle != null) {
+        // fallback for odd cases (number, etc.)
+        bookTitle = String(rawTitle);
+      }
+
+      bookTitle = bookTitle.trim();
+
+      if (bookTitle.length > 0) {
+        // Raise the level of all existing entries by +1
+        for (const e of bookEntries) {
+          e.level = e.level + 1;
+        }
+
+        // Insert the book title as the very first entry
+        bookEntries.unshift({
+          pdfPage: first.pdfPage,
+          bookPage: first.bookPage,
+          label: bookTitle,
+          level: 1,
+          // order is not used after this point, 0 keeps it at the top if re-sorted
+          order: 0,
+        });
+      }
+    }
+
+    return bookEntries.map(
+      (e) => [e.pdfPage, e.bookPage, e.label, e.level] as MergedTOCEntry
+    );
+  });
+
+  return result;
+}
+
+function cleanQuizQuestionText(text: string | null): string {
+  if (!text) return '';
+  return text
+    .replace(/\$\{answerBlock\}/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?[^>]+>/g, '')
+    .trim();
+}
+
+function cleanQuizAnswerText(text: string | null): string {
+  if (!text) return '';
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?[^>]+>/g, '')
+    .trim();
+}
+
+function extractQuizChapterNumberPrefix(title: string | null): number {
+  if (!title) return Number.MAX_SAFE_INTEGER;
+  const match = title.trim().match(/^(\d+)/);
+  return match ? parseInt(match[1], 10) : Number.MAX_SAFE_INTEGER;
+}
+
+export function formatQuestionNumbers(nums: number[]): string {
+  if (!nums || nums.length === 0) return '';
+  const sorted = [...nums].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let prev = sorted[0];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const n = sorted[i];
+    if (n === prev + 1) {
+      prev = n;
+      continue;
+    }
+    if (start === prev) {
+      ranges.push(`${start}`);
+    } else {
+      ranges.push(`${start}–${prev}`);
+    }
+    start = prev = n;
+  }
+
+  if (start === prev) {
+    ranges.push(`${start}`);
+  } else {
+    ranges.push(`${start}–${prev}`);
+  }
+
+  return ranges.join(', ');
+}
+
+async function loadQuizDataForBooks(books: Book[]): Promise<QuizBook[]> {
+  const toggledBooks = books.filter((b) => b.Toggled);
+  if (toggledBooks.length === 0) return [];
+
+  // Map cd.Z_PK -> Book (from the UI selection)
+  const toggledByPk = new Map<number, Book>();
+  const bookIds: number[] = [];
+
+  for (const b of toggledBooks) {
+    const n = parseInt(b.BookID, 10);
+    if (!Number.isNaN(n)) {
+      toggledByPk.set(n, b);
+      bookIds.push(n);
+    }
+  }
+  if (bookIds.length === 0) return [];
+
+  const db = sqlite(getDbPath());
+  try {
+    const placeholders = bookIds.map(() => '?').join(', ');
+
+    // --------------------------------------------------------------
+    // 1) Load exercise assets (images) once, like the Quiz tab
+    // --------------------------------------------------------------
+    const assetRows = db
+      .prepare(
+        `
+        SELECT
+          er."Z_EXERCISES" AS exerciseId,
+          er."Z_RESOURCES" AS resId,
+          r."ZMEDIATYPE"   AS mediaType,
+          r."ZDATA"        AS data
+        FROM Z_EXERCISE_RESOURCE er
+        LEFT JOIN ZILPRESOURCE r
+          ON r."Z_PK" = er."Z_RESOURCES"
+      `
+      )
+      .all() as AssetRow[];
+
+    const assetById = new Map<number, QuizAsset>();
+    const exerciseAssetIds = new Map<number, number[]>();
+
+    for (const row of assetRows) {
+      if (!row.mediaType || !row.data) continue;
+      const mediaType = row.mediaType.toLowerCase();
+      if (!mediaType.startsWith('image/')) continue; // only embed images
+
+      let asset = assetById.get(row.resId);
+      if (!asset) {
+        const buf = Buffer.isBuffer(row.data)
+          ? row.data
+          : Buffer.from(row.data as any);
+        const base64 = buf.toString('base64');
+        const dataUrl = `data:${row.mediaType};base64,${base64}`;
+        asset = {
+          id: row.resId,
+          mediaType: row.mediaType,
+          dataUrl,
+        };
+        assetById.set(row.resId, asset);
+      }
+
+      const list = exerciseAssetIds.get(row.exerciseId) ?? [];
+      list.push(row.resId);
+      exerciseAssetIds.set(row.exerciseId, list);
+    }
+
+    // --------------------------------------------------------------
+    // 2) Main query: Question -> Exercise -> Issue -> Course
+    // --------------------------------------------------------------
+    const rows = db
+      .prepare(
+        `
+        SELECT
+          cd."Z_PK"                AS bookId,
+          cd."ZCOURSEID"           AS bookCourseId,
+          cd."ZREFERENCE"          AS bookRef,
+
+          chap."Z_PK"              AS chapterId,
+          chap."ZTITLE"            AS chapterTitle,
+          chap."ZPRODUCTREFERENCE" AS chapterRef,
+          issue."ZISSUEID"         AS issueId,
+          issue."ZISSUEPRODUCT"    AS issueProduct,
+
+          ex."Z_PK"                AS exerciseId,
+          ex."ZTITLE"              AS exerciseTitle,
+          ex."ZEXERCISEID"         AS exerciseCode,
+
+          q."Z_PK"                 AS questionId,
+          q."ZREFERENCE"           AS questionRef,
+          qd."ZTEXT_DECRYPTED"     AS questionText,
+
+          ans."Z_PK"               AS answerId,
+          ans."ZNUMBER"            AS answerNumber,
+          ans."ZANSWER_TEXT"       AS answerText,
+          ans."ZCORRECT_DECRYPTED" AS answerIsCorrect
+
+        FROM ZILPQUESTION_DECRYPTED qd
+        JOIN ZILPQUESTION q
+          ON q."Z_PK" = qd."Z_PK"
+
+        JOIN ZILPEXERCISE ex
+          ON ex."Z_PK" = q."ZEXERCISE"
+
+        JOIN ZILPISSUEDEF issue
+          ON issue."Z_PK" = ex."ZISSUE"
+
+        JOIN ZILPISSUEPRODUCT ip
+          ON ip."ZISSUEPRODUCT" = issue."ZISSUEPRODUCT"
+
+        JOIN ZILPEPRODUCT chap
+          ON chap."Z_PK" = ip."ZEPRODUCT"
+
+        JOIN ZILPCOURSEDEF cd
+          ON cd."Z_PK" = issue."ZCOURSE"
+
+        LEFT JOIN ZILPANSWER_DECRYPTED ans
+          ON ans."ZQUESTION" = q."Z_PK"
+         AND ans."ZTYPE" = 3
+
+        WHERE cd."Z_PK" IN (${placeholders})
+
+        ORDER BY
+          cd."ZCOURSEID",
+          chap."ZTITLE",
+          ex."ZEXERCISEID",
+          q."ZREFERENCE",
+          ans."ZNUMBER"
+      `
+      )
+      .all(...bookIds) as RawQuizRow[];
+
+    if (rows.length === 0) return [];
+
+    // --------------------------------------------------------------
+    // 3) Aggregate rows → books → chapters → questions (+ assets)
+    // --------------------------------------------------------------
+    const booksMap = new Map<
+      number,
+      {
+        id: number;
+        courseId: string | null;
+        ref: string | null;
+        title: string;
+        lang: string;
+        chapters: Map<
+          number,
+          {
+            id: number;
+            title: string;
+            ref: string | null;
+            issueId: string | null;
+            questions: Map<
+              number,
+              {
+                id: number;
+                ref: string | null;
+                text: string;
+                exerciseTitle: string | null;
+                exerciseCode: string | null;
+                exerciseId: number;
+                assets: QuizAsset[];
+                answers: QuizAnswer[];
+              }
+            >;
+          }
+        >;
+      }
+    >();
+
+    for (const row of rows) {
+      // Skip quiz questions of chapters that are not part of the export
+      const selectedBook = toggledByPk.get(row.bookId);
+      if (selectedBook && !selectedBook.Issue.includes(Number(row.issueProduct))) continue;
+
+      // --- Book ---
+      let book = booksMap.get(row.bookId);
+      if (!book) {
+        const toggledBook = toggledByPk.get(row.bookId);
+
+        const titleFromBooks =
+          (toggledBook?.Titel ?? '').toString().trim() ||
+          (toggledBook?.CourseName ?? '').toString().trim() ||
+          (toggledBook?.Refrence ?? '').toString().trim();
+
+        const finalTitle =
+          titleFromBooks ||
+          row.bookCourseId ||
+          row.bookRef ||
+          `Buch ${row.bookId}`;
+
+        // NEW: derive language, default DE
+        let lang = (toggledBook as any)?.Lang;
+        if (typeof lang !== 'string') lang = 'DE';
+        lang = lang.trim().toUpperCase();
+
+        book = {
+          id: row.bookId,
+          courseId: row.bookCourseId,
+          ref: row.bookRef,
+          title: finalTitle,
+          lang,
+          chapters: new Map(),
+        };
+        booksMap.set(row.bookId, book);
+      }
+
+      // --- Chapter ---
+      let chapter = book.chapters.get(row.chapterId);
+      if (!chapter) {
+        chapter = {
+          id: row.chapterId,
+          title:
+            row.chapterTitle ||
+            row.issueId ||
+            row.chapterRef ||
+            `Kapitel ${row.chapterId}`,
+          ref: row.chapterRef,
+          issueId: row.issueId,
+          questions: new Map(),
+        };
+        book.chapters.set(row.chapterId, chapter);
+      }
+
+      // --- Question ---
+      let question = chapter.questions.get(row.questionId);
+      if (!question) {
+        const assetIds = exerciseAssetIds.get(row.exerciseId) ?? [];
+        const assets = assetIds
+          .map((id) => assetById.get(id))
+          .filter((a): a is QuizAsset => !!a);
+
+        question = {
+          id: row.questionId,
+          ref: row.questionRef,
+          text: cleanQuizQuestionText(row.questionText),
+          exerciseTitle: row.exerciseTitle,
+          exerciseCode: row.exerciseCode,
+          exerciseId: row.exerciseId,
+          assets,
+          answers: [],
+        };
+        chapter.questions.set(row.questionId, question);
+      }
+
+      // --- Answer ---
+      if (row.answerId != null && row.answerNumber != null) {
+        question.answers.push({
+          id: row.answerId,
+          number: row.answerNumber,
+          text: cleanQuizAnswerText(row.answerText),
+          isCorrect:
+            row.answerIsCorrect == null
+              ? null
+              : row.answerIsCorrect === 1,
+        });
+      }
+    }
+
+    // --------------------------------------------------------------
+    // 4) Convert to arrays, sort, and pull out shared assets per chapter
+    // --------------------------------------------------------------
+    const SHARED_THRESHOLD = 3; // must be used by ≥3 questions to become "shared"
+
+    const quizBooks: QuizBook[] = Array.from(booksMap.values()).map(
+      (book) => {
+        const chapters: QuizChapter[] = Array.from(book.chapters.values())
+          .sort(
+            (a, b) =>
+              extractQuizChapterNumberPrefix(a.title) -
+              extractQuizChapterNumberPrefix(b.title)
+          )
+          .map((ch) => {
+            // questions array (keep current insertion order)
+            const questions: QuizQuestion[] = Array.from(
+              ch.questions.values()
+            ).map((q) => ({
+              id: q.id,
+              ref: q.ref,
+              text: q.text,
+              exerciseTitle: q.exerciseTitle,
+              exerciseCode: q.exerciseCode,
+              exerciseId: q.exerciseId,
+              assets: [...q.assets],
+              answers: [...q.answers].sort(
+                (a, b) => a.number - b.number
+              ),
+            }));
+
+            // Build asset usage: assetId -> { asset, questionIndices }
+            const usage = new Map<
+              number,
+              { asset: QuizAsset; questionIndices: number[] }
+            >();
+
+            questions.forEach((q, idx) => {
+              q.assets.forEach((asset) => {
+                const existing = usage.get(asset.id);
+                if (!existing) {
+                  usage.set(asset.id, {
+                    asset,
+                    questionIndices: [idx + 1], // 1-based
+                  });
+                } else {
+                  existing.questionIndices.push(idx + 1);
+                }
+              });
+            });
+
+            // Group assets by identical question sets to form multi-page groups
+            const groupsMap = new Map<
+              string,
+              { assets: QuizAsset[]; questionNumbers: number[] }
+            >();
+
+            for (const { asset, questionIndices } of usage.values()) {
+              if (questionIndices.length < SHARED_THRESHOLD) continue;
+              const key = questionIndices.join(',');
+              let group = groupsMap.get(key);
+              if (!group) {
+                group = {
+                  assets: [],
+                  questionNumbers: [...questionIndices],
+                };
+                groupsMap.set(key, group);
+              }
+              group.assets.push(asset);
+            }
+
+            const sharedGroups = Array.from(groupsMap.values());
+
+            // Remove shared assets from per-question lists
+            const sharedIds = new Set<number>();
+            sharedGroups.forEach((g) =>
+              g.assets.forEach((a) => sharedIds.add(a.id))
+            );
+
+            questions.forEach((q) => {
+              q.assets = q.assets.filter(
+                (a) => !sharedIds.has(a.id)
+              );
+            });
+
+            const sharedAssets: QuizSharedAssetGroup[] =
+              sharedGroups.map((g, idx) => ({
+                id: idx,
+                questionNumbers: g.questionNumbers,
+                pages: g.assets,
+              }));
+
+            return {
+              id: ch.id,
+              title: ch.title,
+              ref: ch.ref,
+              issueId: ch.issueId,
+              questions,
+              sharedAssets,
+            };
+          });
+
+        return {
+          id: book.id,
+          courseId: book.courseId,
+          ref: book.ref,
+          title: book.title,
+          lang: book.lang,
+          chapters,
+        };
+      }
+    );
+
+    return quizBooks;
+  } finally {
+    db.close();
+  }
+}
+
+// Quiz images get the same treatment as the images of the book pages
+async function transformQuizAssets(quizBooks: QuizBook[], transformer: ImageTransformer) {
+  if (!hasImageTransform(transformer.transform)) return;
+
+  for (const book of quizBooks) {
+    for (const chapter of book.chapters) {
+      const assets = [
+        ...chapter.questions.flatMap((q) => q.assets),
+        ...chapter.sharedAssets.flatMap((group) => group.pages),
+      ];
+      for (const asset of assets) {
+        asset.dataUrl = await transformer.transformDataUrl(asset.dataUrl);
+      }
+    }
+  }
+}
+
+function parseDataUrlToBuffer(
+  dataUrl: string
+): { mimeType: string; buffer: Uint8Array } | null {
+  if (!dataUrl || !dataUrl.startsWith('data:')) return null;
+  const match = /^data:([^;]+);base64,(.+)$/.exec(dataUrl);
+  if (!match) return null;
+  const mimeType = match[1];
+  const base64 = match[2];
+  const buffer = Buffer.from(base64, 'base64');
+  return { mimeType, buffer };
+}
+
+async function embedQuizImage(
+  pdfDoc: PDFDocument,
+  asset: QuizAsset,
+  cache: Map<number, any>
+) {
+  if (!asset || !asset.dataUrl || !asset.mediaType) return null;
+
+  const cached = cache.get(asset.id);
+  if (cached) return cached;
+
+  const parsed = parseDataUrlToBuffer(asset.dataUrl);
+  if (!parsed) return null;
+
+  const { mimeType, buffer } = parsed;
+  let image: any;
+  try {
+    if (mimeType === 'image/png') {
+      image = await pdfDoc.embedPng(buffer);
+    } else if (
+      mimeType === 'image/jpeg' ||
+      mimeType === 'image/jpg' ||
+      mimeType === 'image/pjpeg'
+    ) {
+      image = await pdfDoc.embedJpg(buffer);
+    } else {
+      // unsupported type – skip silently
+      return null;
+    }
+  } catch (err) {
+    console.error('Failed to embed quiz image', err);
+    return null;
+  }
+
+  cache.set(asset.id, image);
+  return image;
+}
+
+async function appendQuizPagesToPdf(
+  pdfDoc: PDFDocument,
+  quizBooks: QuizBook[],
+  pageSize: PageSize
+): Promise<PDFDocument> {
+  if (!quizBooks || quizBooks.length === 0) {
+    return pdfDoc;
+  }
+
+  const { bodyFont, boldFont } = await getUnicodeFonts(pdfDoc);
+
+  const margin = 50;
+  const sectionSpacing = 24;
+  const questionSpacing = 6;
+  const lineHeight = 12;
+
+  const questionFontSize = 9;
+  const answerFontSize = 10;
+  const titleFontSize = 16;
+  const chapterFontSize = 12;
+
+  const maxTextWidth = pageSize.width - 2 * margin;
+  const answerIndent = 20;
+  const imageGap = 8;
+
+  const usablePageHeight = pageSize.height - 2 * margin;
+
+  let page = pdfDoc.addPage([pageSize.width, pageSize.height]);
+  let y = pageSize.height - margin;
+
+  const startNewPage = () => {
+    page = pdfDoc.addPage([pageSize.width, pageSize.height]);
+    y = pageSize.height - margin;
+  };
+
+  // Cache embedded images so each asset is only embedded once
+  const imageCache = new Map<number, any>();
+
+  for (const book of quizBooks) {
+    const rawBookTitle = book.title || 'Quiz';
+
+    // language detection
+    let lang = (book as any)?.lang || (book as any)?.Lang || 'DE';
+    if (typeof lang !== 'string') lang = 'DE';
+    lang = lang.trim().toUpperCase();
+
+    let quizLabel: string;
+    switch (lang) {
+      case 'EN':
+        quizLabel = 'Quiz';
+        break;
+      case 'FR':
+        quizLabel = 'Quiz';
+        break;
+      case 'ES':
+        quizLabel = 'Cuestionario';
+        break;
+      case 'IT':
+        quizLabel = 'Quiz';
+        break;
+      case 'DE':
+      default:
+        quizLabel = 'Quiz';
+        break;
+    }
+
+    const headerText = rawBookTitle
+      ? `${quizLabel} – ${rawBookTitle}`
+      : quizLabel;
+
+    if (y < margin + 3 * lineHeight) {
+      startNewPage();
+    }
+
+    // Book heading
+    await drawText(page, normalizePdfText(headerText), {
+      x: margin,
+      y,
+      size: titleFontSize,
+      font: boldFont,
+    });
+    y -= sectionSpacing;
+
+    for (const chapter of book.chapters) {
+      const questions = chapter.questions || [];
+      if (questions.length === 0) continue;
+
+      if (y < margin + 3 * lineHeight) {
+        startNewPage();
+      }
+
+      const chapterTitle = normalizePdfText(
+        chapter.title || 'Kapitel'
+      );
+
+      // Chapter heading
+      await drawText(page, chapterTitle, {
+        x: margin,
+        y,
+        size: chapterFontSize,
+        font: boldFont,
+      });
+      y -= sectionSpacing;
+
+      // ------------------------------------------------------
+      // 1) Shared assets (chapter-level), like in the Quiz tab
+      // ------------------------------------------------------
+      const sharedGroups = chapter.sharedAssets || [];
+      for (const group of sharedGroups) {
+        const pages = group.pages || [];
+
+        for (const asset of pages) {
+          const image = await embedQuizImage(
+            pdfDoc,
+            asset,
+            imageCache
+          );
+          if (!image) continue;
+
+          const origWidth = image.width;
+          const origHeight = image.height;
+
+          const maxImageWidth = maxTextWidth;
+          const maxImageHeight = usablePageHeight * 0.6;
+
+          const scale = Math.min(
+            maxImageWidth / origWidth,
+            maxImageHeight / origHeight,
+            1
+          );
+
+          const drawWidth = origWidth * scale;
+          const drawHeight = origHeight * scale;
+
+          if (y - drawHeight < margin) {
+            startNewPage();
+          }
+
+          const xImg = margin + (maxTextWidth - drawWidth) / 2;
+          y -= drawHeight;
+          page.drawImage(image, {
+            x: xImg,
+            y,
+            width: drawWidth,
+            height: drawHeight,
+          });
+          y -= imageGap;
+        }
+
+        let caption: string;
+        const formattedNums = group.questionNumbers && group.questionNumbers.length
+          ? formatQuestionNumbers(group.questionNumbers)
+          : '';
+
+        switch (lang) {
+          case 'EN':
+            caption = formattedNums
+              ? `Material for questions ${formattedNums}`
+              : 'Material for multiple questions';
+            break;
+          case 'FR':
+            caption = formattedNums
+              ? `Matériel pour les questions ${formattedNums}`
+              : 'Matériel pour plusieurs questions';
+            break;
+          case 'ES':
+            caption = formattedNums
+              ? `Material para las preguntas ${formattedNums}`
+              : 'Material para varias preguntas';
+            break;
+          case 'IT':
+            caption = formattedNums
+              ? `Materiale per le domande ${formattedNums}`
+              : 'Materiale per più domande';
+            break;
+          case 'DE':
+          default:
+            caption = formattedNums
+              ? `Material für Fragen ${formattedNums}`
+              : 'Material für mehrere Fragen';
+            break;
+        }
+
+        const captionLines = wrapText(
+          normalizePdfText(caption),
+          maxTextWidth,
+          bodyFont,
+          questionFontSize
+        );
+
+        for (const line of captionLines) {
+          if (y < margin + 2 * lineHeight) {
+            startNewPage();
+          }
+          await drawText(page, line, {
+            x: margin,
+            y,
+            size: questionFontSize,
+            font: bodyFont,
+          });
+          y -= lineHeight;
+        }
+
+        y -= sectionSpacing;
+      }
+
+      // ------------------------------------------------------
+      // 2) Questions + per-question assets
+      // ------------------------------------------------------
+      let questionIndex = 1;
+
+      for (const question of questions) {
+        const questionLabel = `${questionIndex}. ${normalizePdfText(
+          question.text || ''
+        )}`;
+        const questionLines = wrapText(
+          questionLabel,
+          maxTextWidth,
+          bodyFont,
+          questionFontSize
+        );
+
+        const answers = question.answers || [];
+        const allAnswerLines: string[][] = [];
+        let totalAnswerLines = 0;
+
+        for (let i = 0; i < answers.length; i++) {
+          const answer = answers[i];
+          const letter = String.fromCharCode(65 + i); // A,B,...
+          const answerText = `${letter}) ${normalizePdfText(
+            answer.text || ''
+          )}`;
+          const answerLines = wrapText(
+            answerText,
+            maxTextWidth - answerIndent,
+            bodyFont,
+            answerFontSize
+          );
+          allAnswerLines.push(answerLines);
+          totalAnswerLines += answerLines.length;
+        }
+
+        const questionLinesCount = questionLines.length;
+        const totalLinesForBlock = questionLinesCount + totalAnswerLines;
+        const blockHeight =
+          totalLinesForBlock * lineHeight + questionSpacing;
+
+        const availableHeight = y - margin;
+        const canFitOnFreshPage =
+          blockHeight <= usablePageHeight && blockHeight > 0;
+        const keepTogether = canFitOnFreshPage;
+
+        if (keepTogether && blockHeight > availableHeight) {
+          startNewPage();
+        }
+
+        // Question text
+        for (const line of questionLines) {
+          if (!keepTogether && y < margin + 2 * lineHeight) {
+            startNewPage();
+          }
+          await drawText(page, line, {
+            x: margin,
+            y,
+            size: questionFontSize,
+            font: bodyFont,
+          });
+          y -= lineHeight;
+        }
+
+        // Answers
+        for (const answerLines of allAnswerLines) {
+          for (const line of answerLines) {
+            if (!keepTogether && y < margin + 2 * lineHeight) {
+              startNewPage();
+            }
+            await drawText(page, line, {
+              x: margin + answerIndent,
+              y,
+              size: answerFontSize,
+              font: bodyFont,
+            });
+            y -= lineHeight;
+          }
+        }
+
+        y -= questionSpacing;
+
+        // Question-specific assets (images)
+        const questionAssets = question.assets || [];
+        for (const asset of questionAssets) {
+          const image = await embedQuizImage(
+            pdfDoc,
+            asset,
+            imageCache
+          );
+          if (!image) continue;
+
+          const origWidth = image.width;
+          const origHeight = image.height;
+          const maxImageWidth = maxTextWidth;
+          const maxImageHeight = usablePageHeight * 0.6;
+
+          const scale = Math.min(
+            maxImageWidth / origWidth,
+            maxImageHeight / origHeight,
+            1
+          );
+
+          const drawWidth = origWidth * scale;
+          const drawHeight = origHeight * scale;
+
+          if (y - drawHeight < margin) {
+            startNewPage();
+          }
+
+          const xImg = margin + (maxTextWidth - drawWidth) / 2;
+          y -= drawHeight;
+          page.drawImage(image, {
+            x: xImg,
+            y,
+            width: drawWidth,
+            height: drawHeight,
+          });
+          y -= imageGap;
+        }
+
+        y -= sectionSpacing / 2;
+        questionIndex++;
+      }
+
+      y -= sectionSpacing; // between chapters
+    }
+
+    y -= sectionSpacing; // between books
+  }
+
+  return pdfDoc;
+}
+
+function wrapText(
+  text: string,
+  maxWidth: number,
+  font: PdfTextFont,
+  fontSize: number
+): string[] {
+  const words = (text || '').split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let currentLine = '';
+
+  for (const word of words) {
+    const testLine = currentLine ? `${currentLine} ${word}` : word;
+    const testWidth = font.widthOfTextAtSize(testLine, fontSize);
+
+    if (testWidth <= maxWidth) {
+      currentLine = testLine;
+    } else {
+      if (currentLine) {
+        lines.push(currentLine);
+        currentLine = word;
+      } else {
+        // Single word longer than max width: hard-break by characters
+        let remaining = word;
+        while (remaining.length > 0) {
+          let low = 1;
+          let high = remaining.length;
+          let fitChars = 1;
+
+          while (low <= high) {
+            const mid = Math.floor((low + high) / 2);
+            const piece = remaining.slice(0, mid);
+            const w = font.widthOfTextAtSize(piece, fontSize);
+            if (w <= maxWidth) {
+              fitChars = mid;
+              low = mid + 1;
+            } else {
+              high = mid - 1;
+            }
+          }
+
+          lines.push(remaining.slice(0, fitChars));
+          remaining = remaining.slice(fitChars);
+        }
+        currentLine = '';
+      }
+    }
+  }
+
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+
+  return lines.length ? lines : [''];
+}
+
+async function appendQuizSolutionPagesToPdf(
+  pdfDoc: PDFDocument,
+  quizBooks: QuizBook[],
+  pageSize: PageSize
+): Promise<PDFDocument> {
+  if (!quizBooks || quizBooks.length === 0) {
+    return pdfDoc;
+  }
+
+  const { boldFont } = await getUnicodeFonts(pdfDoc);
+
+  const margin = 50;
+  const headerSpacing = 24;
+  const sectionSpacing = 20;
+  const solutionLineHeight = 12;
+
+  const titleFontSize = 16;
+  const chapterFontSize = 12;
+  const solutionFontSize = 10;
+
+  const maxWidth = pageSize.width - 2 * margin;
+  const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+  const numColumns = 3;
+  const columnGap = 20;
+  const columnWidth =
+    (maxWidth - columnGap * (numColumns - 1)) / numColumns;
+
+  let page = pdfDoc.addPage([pageSize.width, pageSize.height]);
+  let y = pageSize.height - margin;
+
+  let currentLang: string = 'DE';
+
+  const drawBookHeader = async (bookTitle: string) => {
+    let headerLabel: string;
+    switch (currentLang) {
+      case 'EN':
+        headerLabel = 'Solutions';
+        break;
+      case 'FR':
+        headerLabel = 'Solutions';
+        break;
+      case 'ES':
+        headerLabel = 'Soluciones';
+        break;
+      case 'IT':
+        headerLabel = 'Soluzioni';
+        break;
+      case 'DE':
+      default:
+        headerLabel = 'Lösungen';
+        break;
+    }
+
+    const fullTitle = bookTitle
+      ? `${headerLabel} – ${bookTitle}`
+      : headerLabel;
+
+    await drawText(page, normalizePdfText(fullTitle), {
+      x: margin,
+      y,
+      size: titleFontSize,
+      font: boldFont,
+    });
+    y -= headerSpacing;
+  };
+
+  const drawChapterHeader = async (chapterTitle: string) => {
+    await drawText(page, normalizePdfText(chapterTitle), {
+      x: margin,
+      y,
+      size: chapterFontSize,
+      font: boldFont,
+    });
+    y -= sectionSpacing;
+  };
+
+  const startNewPage = async (
+    bookTitle?: string,
+    chapterTitle?: string
+  ) => {
+    page = pdfDoc.addPage([pageSize.width, pageSize.height]);
+    y = pageSize.height - margin;
+
+    if (bookTitle) {
+      await drawBookHeader(bookTitle);
+    }
+    if (chapterTitle) {
+      await drawChapterHeader(chapterTitle);
+    }
+  };
+
+  for (const book of quizBooks) {
+    const bookTitle = book.title || 'Quiz';
+
+    let lang = (book as any)?.lang || (book as any)?.Lang || 'DE';
+    if (typeof lang !== 'string') lang = 'DE';
+    currentLang = lang.trim().toUpperCase();
+
+    if (y < margin + 3 * solutionLineHeight) {
+      await startNewPage(bookTitle);
+    } else {
+      await drawBookHeader(bookTitle);
+    }
+
+    for (const chapter of book.chapters) {
+      const questions = chapter.questions || [];
+      if (questions.length === 0) continue;
+
+      const chapterTitle = chapter.title || 'Kapitel';
+
+      if (y < margin + 3 * solutionLineHeight) {
+        await startNewPage(bookTitle, chapterTitle);
+      } else {
+        await drawChapterHeader(chapterTitle);
+      }
+
+      let rowY = y;
+      let colIndex = 0;
+      let questionIndex = 1;
+
+      const finishRowIfNeeded = () => {
+        if (colIndex !== 0) {
+          rowY -= solutionLineHeight;
+          colIndex = 0;
+        }
+      };
+
+      for (const question of questions) {
+        const answers = (question.answers || [])
+          .slice()
+          .sort((a, b) => a.number - b.number);
+
+        let label: string;
+
+        if (!answers.length) {
+          label = `${questionIndex}. –`;
+        } else {
+          const correctIndex = answers.findIndex(
+            (a) => a.isCorrect === true
+          );
+          if (correctIndex === -1) {
+            label = `${questionIndex}. –`;
+          } else {
+            const letter =
+              LETTERS[correctIndex] ??
+              `#${answers[correctIndex].number}`;
+            label = `${questionIndex}. ${letter}`;
+          }
+        }
+
+        if (rowY < margin + solutionLineHeight) {
+          await startNewPage(bookTitle, chapterTitle);
+          rowY = y;
+          colIndex = 0;
+        }
+
+        const x =
+          margin + colIndex * (columnWidth + columnGap);
+
+        await drawText(page, normalizePdfText(label), {
+          x,
+          y: rowY,
+          size: solutionFontSize,
+          font: boldFont,
+        });
+
+        colIndex++;
+        if (colIndex >= numColumns) {
+          colIndex = 0;
+          rowY -= solutionLineHeight;
+        }
+
+        questionIndex++;
+      }
+
+      finishRowIfNeeded();
+      y = rowY - sectionSpacing;
+    }
+
+    y -= sectionSpacing;
+  }
+
+  return pdfDoc;
+}
+
+// ==========================================================================
+// QUIZ DECRYPT (export-side)
+// Ensures ZILPQUESTION_DECRYPTED + ZILPANSWER_DECRYPTED exist + are populated
+// for the currently exported issues.
+// Reuses logic from /api/quiz/decrypt, but scopes work to selected issues.
+// ==========================================================================
+
+const QUIZ_KEY_STRING = 'fdäK?s^dw-+ç,W!El';
+const QUIZ_IV_STRING = '/D}$2al!';
+
+function decryptStoredQA(stored: string) {
+  if (!stored || stored.length <= 3) return { idString: null as string | null, plaintext: null as string | null };
+
+  const base64Payload = stored.substring(3);
+
+  try {
+    const key = CryptoJS.enc.Utf8.parse(QUIZ_KEY_STRING.substring(0, 8));
+    const iv = CryptoJS.enc.Utf8.parse(QUIZ_IV_STRING);
+
+    const decrypted = CryptoJS.DES.decrypt(
+      { ciphertext: CryptoJS.enc.Base64.parse(base64Payload) } as CryptoJS.lib.CipherParams,
+      key,
+      { iv, mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 }
+    );
+
+    const text = decrypted.toString(CryptoJS.enc.Utf8);
+    if (!text) return { idString: null, plaintext: null };
+
+    const idx = text.indexOf(':');
+    if (idx === -1) return { idString: null, plaintext: text };
+
+    return { idString: text.substring(0, idx), plaintext: text.substring(idx + 1) };
+  } catch {
+    return { idString: null, plaintext: null };
+  }
+}
+
+function parseDecryptedAnswerPayload(plaintext: string | null): {
+  isCorrect: number | null;
+  letter: string | null;
+  text: string | null;
+} {
+  if (!plaintext) return { isCorrect: null, letter: null, text: null };
+
+  const trimmed = plaintext.trim();
+  const match = /^([01])=([a-zA-Z])\)\s*(.*)$/.exec(trimmed);
+
+  if (!match) {
+    return { isCorrect: null, letter: null, text: trimmed.length ? trimmed : null };
+  }
+
+  const [, flag, letter, rest] = match;
+  return {
+    isCorrect: flag === '1' ? 1 : 0,
+    letter,
+    text: rest.trim().length ? rest.trim() : null,
+  };
+}
+
+function ensureTableExistsFromBase(db: any, decryptedTable: string, baseTable: string) {
+  const exists = !!db
+    .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name=?`)
+    .get(decryptedTable);
+
+  if (!exists) {
+    db.exec(`CREATE TABLE ${decryptedTable} AS SELECT * FROM ${baseTable} WHERE 0;`);
+  }
+}
+
+function ensureColumn(db: any, table: string, colDefSql: string) {
+  try {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${colDefSql};`);
+  } catch {
+    // ignore "duplicate column" errors
+  }
+}
+
+function getBaseColumnNames(db: any, baseTable: string): string[] {
+  const info = db.prepare(`PRAGMA table_info(${baseTable})`).all() as any[];
+  return info.map((c) => c.name).filter(Boolean);
+}
+
+async function ensureQuizDecryptedTablesForExport(books: Book[]) {
+  // Only decrypt for issues we actually export
+  const issueIds = Array.from(
+    new Set(
+      books
+        .filter((b) => b.Toggled)
+        .flatMap((b) => b.Issue)
+        .map((n) => Number(n))
+        .filter((n) => Number.isFinite(n))
+    )
+  );
+
+  if (issueIds.length === 0) return { ok: true, issues: 0, updatedQuestions: 0, updatedAnswers: 0 };
+
+  // open writable (needed to create/populate decrypted tables)
+  const db = sqlite(getDbPath(), { readonly: false });
+
+  try {
+    // Guard: base tables must exist
+    const hasAnswer = !!db
+      .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='ZILPANSWER'`)
+      .get();
+    const hasQuestion = !!db
+      .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='ZILPQUESTION'`)
+      .get();
+
+    if (!hasAnswer || !hasQuestion) {
+      return { ok: false, issues: issueIds.length, error: 'Missing ZILPANSWER or ZILPQUESTION base tables.' };
+    }
+
+    // Ensure decrypted tables exist (don’t wipe them)
+    ensureTableExistsFromBase(db, 'ZILPANSWER_DECRYPTED', 'ZILPANSWER');
+    ensureTableExistsFromBase(db, 'ZILPQUESTION_DECRYPTED', 'ZILPQUESTION');
+
+    // Ensure required decrypted columns exist
+    ensureColumn(db, 'ZILPANSWER_DECRYPTED', 'ZTEXT_DECRYPTED TEXT');
+    ensureColumn(db, 'ZILPANSWER_DECRYPTED', 'ZIDSTRING TEXT');
+    ensureColumn(db, 'ZILPANSWER_DECRYPTED', 'ZCORRECT_DECRYPTED INTEGER');
+    ensureColumn(db, 'ZILPANSWER_DECRYPTED', 'ZANSWER_LETTER TEXT');
+    ensureColumn(db, 'ZILPANSWER_DECRYPTED', 'ZANSWER_TEXT TEXT');
+
+    ensureColumn(db, 'ZILPQUESTION_DECRYPTED', 'ZTEXT_DECRYPTED TEXT');
+    ensureColumn(db, 'ZILPQUESTION_DECRYPTED', 'ZIDSTRING TEXT');
+
+    const placeholders = issueIds.map(() => '?').join(', ');
+
+    // ---- QUESTIONS (scoped by issue) ----
+    // Delete existing decrypted rows for these issues so we can refresh cleanly
+    db.prepare(
+      `
+      DELETE FROM ZILPQUESTION_DECRYPTED
+      WHERE Z_PK IN (
+        SELECT q."Z_PK"
+        FROM ZILPQUESTION q
+        JOIN ZILPEXERCISE ex ON ex."Z_PK" = q."ZEXERCISE"
+        WHERE ex."ZISSUE" IN (${placeholders})
+      )
+      `
+    ).run(...issueIds);
+
+    const qColNames = getBaseColumnNames(db, 'ZILPQUESTION');
+    const qBaseCols = qColNames.join(', ');
+    const qPlaceholders = qColNames.map((n) => `@${n}`).join(', ') + ', @ZTEXT_DECRYPTED, @ZIDSTRING';
+
+    const qInsert = db.prepare(
+      `INSERT INTO ZILPQUESTION_DECRYPTED (${qBaseCols}, ZTEXT_DECRYPTED, ZIDSTRING) VALUES (${qPlaceholders})`
+    );
+
+    const qRows = db
+      .prepare(
+        `
+        SELECT q.*
+        FROM ZILPQUESTION q
+        JOIN ZILPEXERCISE ex ON ex."Z_PK" = q."ZEXERCISE"
+        WHERE ex."ZISSUE" IN (${placeholders})
+        `
+      )
+      .all(...issueIds) as any[];
+
+    let updatedQuestions = 0;
+
+    const qTx = db.transaction((rows: any[]) => {
+      for (const row of rows) {
+        const raw = typeof row.ZTEXT === 'string' ? row.ZTEXT : null;
+
+        let ZTEXT_DECRYPTED: string | null = null;
+        let ZIDSTRING: string | null = null;
+
+        if (raw && (raw.startsWith('AT$') || raw.startsWith('QT$'))) {
+          const { idString, plaintext } = decryptStoredQA(raw);
+          if (plaintext != null) {
+            ZTEXT_DECRYPTED = plaintext;
+            ZIDSTRING = idString;
+          }
+        } else if (raw) {
+          // fallback: some rows might not be prefixed; keep plaintext so joins still work
+          ZTEXT_DECRYPTED = raw;
+        }
+
+        qInsert.run({ ...row, ZTEXT_DECRYPTED, ZIDSTRING });
+        updatedQuestions++;
+      }
+    });
+
+    qTx(qRows);
+
+    // ---- ANSWERS (scoped by issue) ----
+    db.prepare(
+      `
+      DELETE FROM ZILPANSWER_DECRYPTED
+      WHERE Z_PK IN (
+        SELECT a."Z_PK"
+        FROM ZILPANSWER a
+        JOIN ZILPQUESTION q ON q."Z_PK" = a."ZQUESTION"
+        JOIN ZILPEXERCISE ex ON ex."Z_PK" = q."ZEXERCISE"
+        WHERE ex."ZISSUE" IN (${placeholders})
+      )
+      `
+    ).run(...issueIds);
+
+    const aColNames = getBaseColumnNames(db, 'ZILPANSWER');
+    const aBaseCols = aColNames.join(', ');
+    const aPlaceholders =
+      aColNames.map((n) => `@${n}`).join(', ') +
+      ', @ZTEXT_DECRYPTED, @ZIDSTRING, @ZCORRECT_DECRYPTED, @ZANSWER_LETTER, @ZANSWER_TEXT';
+
+    const aInsert = db.prepare(
+      `INSERT INTO ZILPANSWER_DECRYPTED (${aBaseCols}, ZTEXT_DECRYPTED, ZIDSTRING, ZCORRECT_DECRYPTED, ZANSWER_LETTER, ZANSWER_TEXT)
+       VALUES (${aPlaceholders})`
+    );
+
+    const aRows = db
+      .prepare(
+        `
+        SELECT a.*
+        FROM ZILPANSWER a
+        JOIN ZILPQUESTION q ON q."Z_PK" = a."ZQUESTION"
+        JOIN ZILPEXERCISE ex ON ex."Z_PK" = q."ZEXERCISE"
+        WHERE ex."ZISSUE" IN (${placeholders})
+        `
+      )
+      .all(...issueIds) as any[];
+
+    let updatedAnswers = 0;
+
+    const aTx = db.transaction((rows: any[]) => {
+      for (const row of rows) {
+        const raw = typeof row.ZTEXT === 'string' ? row.ZTEXT : null;
+
+        let ZTEXT_DECRYPTED: string | null = null;
+        let ZIDSTRING: string | null = null;
+        let ZCORRECT_DECRYPTED: number | null = null;
+        let ZANSWER_LETTER: string | null = null;
+        let ZANSWER_TEXT: string | null = null;
+
+        if (raw && (raw.startsWith('AT$') || raw.startsWith('QT$'))) {
+          const { idString, plaintext } = decryptStoredQA(raw);
+          if (plaintext != null) {
+            ZTEXT_DECRYPTED = plaintext;
+            ZIDSTRING = idString;
+
+            const parsed = parseDecryptedAnswerPayload(plaintext);
+            ZCORRECT_DECRYPTED = parsed.isCorrect;
+            ZANSWER_LETTER = parsed.letter;
+            ZANSWER_TEXT = parsed.text;
+          }
+        } else if (raw) {
+          ZTEXT_DECRYPTED = raw;
+          const parsed = parseDecryptedAnswerPayload(raw);
+          ZCORRECT_DECRYPTED = parsed.isCorrect;
+          ZANSWER_LETTER = parsed.letter;
+          ZANSWER_TEXT = parsed.text;
+        }
+
+        aInsert.run({
+          ...row,
+          ZTEXT_DECRYPTED,
+          ZIDSTRING,
+          ZCORRECT_DECRYPTED,
+          ZANSWER_LETTER,
+          ZANSWER_TEXT,
+        });
+
+        updatedAnswers++;
+      }
+    });
+
+    aTx(aRows);
+
+    return { ok: true, issues: issueIds.length, updatedQuestions, updatedAnswers };
+  } finally {
+    db.close();
+  }
+}
+
+function getMinPdfPageOfBookGroup(group: MergedTOCEntry[] | undefined): number | null {
+  if (!group || group.length === 0) return null;
+
+  let min = Number.POSITIVE_INFINITY;
+  for (const [pdfPage] of group) {
+    const p = Number(pdfPage);
+    if (Number.isFinite(p) && p > 0 && p < min) min = p;
+  }
+  return min === Number.POSITIVE_INFINITY ? null : min;
+}
+
+function findInsertBeforeForBookEnd(
+  tocData: MergedTOCEntry[][],
+  bookIdx: number,
+  pageCount: number
+): number {
+  // Insert before the next book's first page (based on TOC groups)
+  for (let j = bookIdx + 1; j < tocData.length; j++) {
+    const nextStart = getMinPdfPageOfBookGroup(tocData[j]);
+    if (nextStart != null) return nextStart;
+  }
+  // Last book -> append to end
+  return pageCount + 1;
+}
+
+function shiftTocDataForBooksAfter(
+  tocData: MergedTOCEntry[][],
+  fromBookIdxExclusive: number,
+  deltaPages: number
+) {
+  if (!deltaPages) return;
+
+  for (let b = fromBookIdxExclusive + 1; b < tocData.length; b++) {
+    const group = tocData[b];
+    if (!group) continue;
+
+    for (const entry of group) {
+      entry[0] += deltaPages;
+    }
+  }
+}
+
+async function insertQuizAndSolutionsAtEndOfEachBook(
+  pdfDoc: PDFDocument,
+  tocData: MergedTOCEntry[][],
+  books: Book[],
+  quizBooks: QuizBook[],
+  pageSize: PageSize,
+  onBookDone?: (done: number, total: number) => void,
+  pageLabelKinds?: Map<PDFRef, PageLabelKind>
+): Promise<{ pdfDoc: PDFDocument; updatedTocData: MergedTOCEntry[][] }> {
+  const toggledBooks = books.filter((b) => b.Toggled);
+  const groupCount = Math.min(toggledBooks.length, tocData.length);
+  if (groupCount === 0) return { pdfDoc, updatedTocData: tocData };
+
+  // Map quiz book by cd.Z_PK (which matches Book.BookID in your UI list)
+  const quizByBookId = new Map<number, QuizBook>();
+  for (const qb of quizBooks) quizByBookId.set(qb.id, qb);
+
+  // Reuse embedded fonts + image cache across all inserted quiz pages
+  const fonts = await getUnicodeFonts(pdfDoc);
+  const imageCache = new Map<number, any>();
+
+  for (let bookIdx = 0; bookIdx < groupCount; bookIdx++) {
+    const uiBook = toggledBooks[bookIdx];
+    const bookId = parseInt(uiBook.BookID, 10);
+    if (Number.isNaN(bookId)) continue;
+
+    const quizBook = quizByBookId.get(bookId);
+    if (!quizBook) continue; // no quiz for this book -> no insertion, no shifting
+
+    const insertBefore1Based = findInsertBeforeForBookEnd(
+      tocData,
+      bookIdx,
+      pdfDoc.getPageCount()
+    );
+    const insertIndex0Based = insertBefore1Based - 1;
+
+    const insertedPages = await insertQuizAndSolutionsForSingleBookAtIndex(
+      pdfDoc,
+      quizBook,
+      insertIndex0Based,
+      fonts,
+      imageCache,
+      pageSize,
+      pageLabelKinds
+    );
+
+    if (insertedPages > 0) {
+      // shift TOC for all subsequent books so outlines remain correct
+      shiftTocDataForBooksAfter(tocData, bookIdx, insertedPages);
+    }
+
+    onBookDone?.(bookIdx + 1, groupCount);
+  }
+
+  return { pdfDoc, updatedTocData: tocData };
+}
+
+async function insertQuizAndSolutionsForSingleBookAtIndex(
+  pdfDoc: PDFDocument,
+  book: QuizBook,
+  insertIndex0Based: number,
+  fonts: { bodyFont: PdfTextFont; boldFont: PdfTextFont },
+  imageCache: Map<number, any>,
+  pageSize: PageSize,
+  pageLabelKinds?: Map<PDFRef, PageLabelKind>
+): Promise<number> {
+  const { bodyFont, boldFont } = fonts;
+
+  // Only include chapters with questions
+  const chapters = (book.chapters || []).filter((c) => (c.questions || []).length > 0);
+  if (chapters.length === 0) return 0;
+
+  // ---------- shared layout ----------
+  const margin = 50;
+  const sectionSpacing = 24;
+  const questionSpacing = 6;
+  const lineHeight = 12;
+
+  const questionFontSize = 9;
+  const answerFontSize = 10;
+  const titleFontSize = 16;
+  const chapterFontSize = 12;
+
+  const maxTextWidth = pageSize.width - 2 * margin;
+  const answerIndent = 20;
+  const imageGap = 8;
+  const usablePageHeight = pageSize.height - 2 * margin;
+
+  let inserted = 0;
+  let cursorInsertIndex = insertIndex0Based;
+
+  const insertNewPage = () => {
+    const p = pdfDoc.insertPage(cursorInsertIndex, [pageSize.width, pageSize.height]);
+    pageLabelKinds?.set(p.ref, { kind: 'quiz' });
+    cursorInsertIndex += 1;
+    inserted += 1;
+    return p;
+  };
+
+  // language detection
+  let lang = (book as any)?.lang || (book as any)?.Lang || 'DE';
+  if (typeof lang !== 'string') lang = 'DE';
+  lang = lang.trim().toUpperCase();
+
+  let quizLabel: string;
+  switch (lang) {
+    case 'ES': quizLabel = 'Cuestionario'; break;
+    default: quizLabel = 'Quiz'; break;
+  }
+
+  // ============================================================
+  // PART A) QUIZ PAGES (end-of-book)
+  // ============================================================
+  let page = insertNewPage();
+  let y = pageSize.height - margin;
+
+  const headerText = book.title ? `${quizLabel} – ${book.title}` : quizLabel;
+
+  await drawText(page, normalizePdfText(headerText), {
+    x: margin,
+    y,
+    size: titleFontSize,
+    font: boldFont,
+  });
+  y -= sectionSpacing;
+
+  for (const chapter of chapters) {
+    if (y < margin + 3 * lineHeight) {
+      page = insertNewPage();
+      y = pageSize.height - margin;
+    }
+
+    const chapterTitle = normalizePdfText(chapter.title || 'Kapitel');
+
+    await drawText(page, chapterTitle, {
+      x: margin,
+      y,
+      size: chapterFontSize,
+      font: boldFont,
+    });
+    y -= sectionSpacing;
+
+    // 1) Shared assets (chapter-level)
+    const sharedGroups = chapter.sharedAssets || [];
+    for (const group of sharedGroups) {
+      const pages = group.pages || [];
+      for (const asset of pages) {
+        const image = await embedQuizImage(pdfDoc, asset, imageCache);
+        if (!image) continue;
+
+        const maxImageWidth = maxTextWidth;
+        const maxImageHeight = usablePageHeight * 0.6;
+
+        const scale = Math.min(
+          maxImageWidth / image.width,
+          maxImageHeight / image.height,
+          1
+        );
+
+        const drawWidth = image.width * scale;
+        const drawHeight = image.height * scale;
+
+        if (y - drawHeight < margin) {
+          page = insertNewPage();
+          y = pageSize.height - margin;
+        }
+
+        const xImg = margin + (maxTextWidth - drawWidth) / 2;
+        y -= drawHeight;
+
+        page.drawImage(image, {
+          x: xImg,
+          y,
+          width: drawWidth,
+          height: drawHeight,
+        });
+
+        y -= imageGap;
+      }
+
+      const formattedNums =
+        group.questionNumbers && group.questionNumbers.length
+          ? formatQuestionNumbers(group.questionNumbers)
+          : '';
+
+      let caption: string;
+      switch (lang) {
+        case 'EN':
+          caption = formattedNums
+            ? `Material for questions ${formattedNums}`
+            : 'Material for multiple questions';
+          break;
+        case 'ES':
+          caption = formattedNums
+            ? `Material para las preguntas ${formattedNums}`
+            : 'Material para varias preguntas';
+          break;
+        default:
+          caption = formattedNums
+            ? `Material für Fragen ${formattedNums}`
+            : 'Material für mehrere Fragen';
+          break;
+      }
+
+      const captionLines = wrapText(
+        normalizePdfText(caption),
+        maxTextWidth,
+        bodyFont,
+        questionFontSize
+      );
+
+      for (const line of captionLines) {
+        if (y < margin + 2 * lineHeight) {
+          page = insertNewPage();
+          y = pageSize.height - margin;
+        }
+        await drawText(page, line, {
+          x: margin,
+          y,
+          size: questionFontSize,
+          font: bodyFont,
+        });
+        y -= lineHeight;
+      }
+
+      y -= sectionSpacing;
+    }
+
+    // 2) Questions + per-question assets
+    let questionIndex = 1;
+    for (const question of chapter.questions || []) {
+      const questionLabel = `${questionIndex}. ${normalizePdfText(question.text || '')}`;
+      const questionLines = wrapText(
+        questionLabel,
+        maxTextWidth,
+        bodyFont,
+        questionFontSize
+      );
+
+      const answers = question.answers || [];
+      const allAnswerLines: string[][] = [];
+      let totalAnswerLines = 0;
+
+      for (let i = 0; i < answers.length; i++) {
+        const answer = answers[i];
+        const letter = String.fromCharCode(65 + i); // A,B,...
+        const answerText = `${letter}) ${normalizePdfText(answer.text || '')}`;
+        const answerLines = wrapText(
+          answerText,
+          maxTextWidth - answerIndent,
+          bodyFont,
+          answerFontSize
+        );
+        allAnswerLines.push(answerLines);
+        totalAnswerLines += answerLines.length;
+      }
+
+      const totalLinesForBlock = questionLines.length + totalAnswerLines;
+      const blockHeight = totalLinesForBlock * lineHeight + questionSpacing;
+      const availableHeight = y - margin;
+      const canFitOnFreshPage = blockHeight <= usablePageHeight && blockHeight > 0;
+      const keepTogether = canFitOnFreshPage;
+
+      if (keepTogether && blockHeight > availableHeight) {
+        page = insertNewPage();
+        y = pageSize.height - margin;
+      }
+
+      for (const line of questionLines) {
+        if (!keepTogether && y < margin + 2 * lineHeight) {
+          page = insertNewPage();
+          y = pageSize.height - margin;
+        }
+        await drawText(page, line, {
+          x: margin,
+          y,
+          size: questionFontSize,
+          font: bodyFont,
+        });
+        y -= lineHeight;
+      }
+
+      for (const answerLines of allAnswerLines) {
+        for (const line of answerLines) {
+          if (!keepTogether && y < margin + 2 * lineHeight) {
+            page = insertNewPage();
+            y = pageSize.height - margin;
+          }
+          await drawText(page, line, {
+            x: margin + answerIndent,
+            y,
+            size: answerFontSize,
+            font: bodyFont,
+          });
+          y -= lineHeight;
+        }
+      }
+
+      y -= questionSpacing;
+
+      // Question-specific assets
+      for (const asset of question.assets || []) {
+        const image = await embedQuizImage(pdfDoc, asset, imageCache);
+        if (!image) continue;
+
+        const maxImageWidth = maxTextWidth;
+        const maxImageHeight = usablePageHeight * 0.6;
+
+        const scale = Math.min(
+          maxImageWidth / image.width,
+          maxImageHeight / image.height,
+          1
+        );
+
+        const drawWidth = image.width * scale;
+        const drawHeight = image.height * scale;
+
+        if (y - drawHeight < margin) {
+          page = insertNewPage();
+          y = pageSize.height - margin;
+        }
+
+        const xImg = margin + (maxTextWidth - drawWidth) / 2;
+        y -= drawHeight;
+
+        page.drawImage(image, {
+          x: xImg,
+          y,
+          width: drawWidth,
+          height: drawHeight,
+        });
+
+        y -= imageGap;
+      }
+
+      y -= sectionSpacing / 2;
+      questionIndex++;
+    }
+
+    y -= sectionSpacing;
+  }
+
+  // ============================================================
+  // PART B) SOLUTIONS PAGES (immediately after quiz pages)
+  // ============================================================
+  page = insertNewPage();
+  y = pageSize.height - margin;
+
+  let solutionsLabel: string;
+  switch (lang) {
+    case 'EN': solutionsLabel = 'Solutions'; break;
+    case 'ES': solutionsLabel = 'Soluciones'; break;
+    default: solutionsLabel = 'Lösungen'; break;
+  }
+
+  const solutionsHeader = book.title ? `${solutionsLabel} – ${book.title}` : solutionsLabel;
+
+  await drawText(page, normalizePdfText(solutionsHeader), {
+    x: margin,
+    y,
+    size: 16,
+    font: boldFont,
+  });
+  y -= 24;
+
+  const solutionLineHeight = 12;
+  const solutionFontSize = 10;
+  const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+  const maxWidth = pageSize.width - 2 * margin;
+  const numColumns = 3;
+  const columnGap = 20;
+  const columnWidth = (maxWidth - columnGap * (numColumns - 1)) / numColumns;
+
+  const startSolutionsPage = async (chapterTitle?: string) => {
+    page = insertNewPage();
+    y = pageSize.height - margin;
+
+    await drawText(page, normalizePdfText(solutionsHeader), {
+      x: margin,
+      y,
+      size: 16,
+      font: boldFont,
+    });
+    y -= 24;
+
+    if (chapterTitle) {
+      await drawText(page, normalizePdfText(chapterTitle), {
+        x: margin,
+        y,
+        size: 12,
+        font: boldFont,
+      });
+      y -= 20;
+    }
+  };
+
+  for (const chapter of chapters) {
+    const chapterTitle = chapter.title || 'Kapitel';
+
+    if (y < margin + 3 * solutionLineHeight) {
+      await startSolutionsPage(chapterTitle);
+    } else {
+      await drawText(page, normalizePdfText(chapterTitle), {
+        x: margin,
+        y,
+        size: 12,
+        font: boldFont,
+      });
+      y -= 20;
+    }
+
+    let rowY = y;
+    let colIndex = 0;
+    let qIdx = 1;
+
+    for (const question of chapter.questions || []) {
+      const answers = (question.answers || []).slice().sort((a, b) => a.number - b.number);
+      let label: string;
+
+      const correctIndex = answers.findIndex((a) => a.isCorrect === true);
+      if (correctIndex === -1) {
+        label = `${qIdx}. –`;
+      } else {
+        const letter = LETTERS[correctIndex] ?? `#${answers[correctIndex].number}`;
+        label = `${qIdx}. ${letter}`;
+      }
+
+      if (rowY < margin + solutionLineHeight) {
+        await startSolutionsPage(chapterTitle);
+        rowY = y;
+        colIndex = 0;
+      }
+
+      const x = margin + colIndex * (columnWidth + columnGap);
+      await drawText(page, normalizePdfText(label), {
+        x,
+        y: rowY,
+        size: solutionFontSize,
+        font: boldFont,
+      });
+
+      colIndex++;
+      if (colIndex >= numColumns) {
+        colIndex = 0;
+        rowY -= solutionLineHeight;
+      }
+
+      qIdx++;
+    }
+
+    // move y forward for next chapter
+    if (colIndex !== 0) rowY -= solutionLineHeight;
+    y = rowY - 20;
+  }
+
+  return inserted;
+}
+
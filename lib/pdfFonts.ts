@@ -0,0 +1,217 @@
+import fontkit from '@pdf-lib/fontkit';
+import fs from 'fs';
+import path from 'path';
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  type PDFPageDrawTextOptions,
+} from 'pdf-lib';
+
+// Fonts for all text the export draws itself (TOC, quiz, header / footer, covers).
+// Montserrat comes with the app; characters it lacks (math symbols, Greek, Cyrillic, ...)
+// are drawn with the first font of the fallback chain that has them:
+//   1. fonts listed in BEOOK2PDF_FALLBACK_FONTS (TTF / OTF paths, separated like PATH)
+//   2. common system fonts, whichever exist on this machine
+// Collections (.ttc) are not supported by pdf-lib and are skipped.
+
+const FONT_DIR = path.join(process.env.BEOOK2PDF_APP_ROOT ?? process.cwd(), 'assets', 'fonts');
+const MONT_REGULAR_PATH = path.join(
+  FONT_DIR,
+  'montserrat-v13-latin_latin-ext-regular.ttf'
+);
+const MONT_BOLD_PATH = path.join(
+  FONT_DIR,
+  'montserrat-v13-latin_latin-ext-700.ttf'
+);
+
+const WINDOWS_FONT_DIR = path.join(process.env.WINDIR ?? 'C:\\Windows', 'Fonts');
+const SYSTEM_FALLBACK_FONTS = [
+  path.join(WINDOWS_FONT_DIR, 'seguisym.ttf'),      // Segoe UI Symbol
+  path.join(WINDOWS_FONT_DIR, 'arial.ttf'),
+  '/System/Library/Fonts/Supplemental/Arial Unicode.ttf',
+  '/Library/Fonts/Arial Unicode.ttf',
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+  '/usr/share/fonts/dejavu/DejaVuSans.ttf',
+];
+
+type FontFile = {
+  bytes: Uint8Array;
+  hasGlyph: (codePoint: number) => boolean;
+  // Same measure as the embedded PDFFont, without embedding the font
+  widthOfTextAtSize: (text: string, size: number) => number;
+};
+
+// Font files are read once per process, when a character first needs them;
+// embedding happens per document
+const fontFiles = new Map<string, FontFile | null>();
+
+function loadFontFile(fontPath: string): FontFile | null {
+  if (fontFiles.has(fontPath)) return fontFiles.get(fontPath) ?? null;
+
+  let file: FontFile | null = null;
+  try {
+    if (fs.existsSync(fontPath) && /\.(ttf|otf)$/i.test(fontPath)) {
+      const bytes = fs.readFileSync(fontPath);
+      const font = fontkit.create(bytes);
+      file = {
+        bytes,
+        hasGlyph: (codePoint) => font.hasGlyphForCodePoint(codePoint),
+        widthOfTextAtSize: (text, size) =>
+          font.layout(text).glyphs.reduce((width, glyph) => width + glyph.advanceWidth, 0) * size / font.unitsPerEm,
+      };
+    }
+  } catch (err) {
+    console.warn(`Font ${fontPath} cannot be loaded:`, err);
+  }
+
+  fontFiles.set(fontPath, file);
+  return file;
+}
+
+function getFallbackFontPaths(): string[] {
+  const configured = (process.env.BEOOK2PDF_FALLBACK_FONTS ?? '')
+    .split(path.delimiter)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  return [...new Set([...configured, ...SYSTEM_FALLBACK_FONTS])];
+}
+
+function isWhitespace(char: string): boolean {
+  return /\s/.test(char);
+}
+
+/**
+ * The fallback fonts of one document, shared by regular and bold.
+ * A fallback is read when the primary font first lacks a character and embedded when
+ * the first character it has is drawn; documents without such characters embed none.
+ */
+class FallbackFonts {
+  private readonly paths = getFallbackFontPaths();
+  private readonly embedded = new Map<FontFile, Promise<PDFFont>>();
+
+  constructor(private readonly pdfDoc: PDFDocument) {}
+
+  fileFor(codePoint: number): FontFile | null {
+    for (const fontPath of this.paths) {
+      const file = loadFontFile(fontPath);
+      if (file?.hasGlyph(codePoint)) return file;
+    }
+    return null;
+  }
+
+  embed(file: FontFile): Promise<PDFFont> {
+    let font = this.embedded.get(file);
+    if (!font) {
+      font = this.pdfDoc.embedFont(file.bytes, { subset: true });
+      this.embedded.set(file, font);
+    }
+    return font;
+  }
+}
+
+// A run of characters drawn with the same font, fallback null for the primary font
+type TextRun = { text: string; fallback: FontFile | null };
+
+/**
+ * A font chain that measures and draws like a single PDFFont.
+ * Every character uses the primary font if it has a glyph for it, otherwise the first
+ * fallback that has; if none has, the primary font.
+ */
+export class PdfTextFont {
+  constructor(
+    readonly primary: PDFFont,
+    private readonly primaryFile: FontFile,
+    private readonly fallbacks: FallbackFonts
+  ) {}
+
+  private fallbackFor(char: string, current: TextRun | undefined): FontFile | null {
+    // Spaces stay with the surrounding run
+    if (isWhitespace(char) && current) return current.fallback;
+
+    const codePoint = char.codePointAt(0) ?? 0;
+    if (this.primaryFile.hasGlyph(codePoint)) return null;
+    return this.fallbacks.fileFor(codePoint);
+  }
+
+  // Split text into runs drawn with the same font
+  runs(text: string): TextRun[] {
+    const runs: TextRun[] = [];
+
+    for (const char of text.normalize('NFC')) {
+      const current = runs[runs.length - 1];
+      const fallback = this.fallbackFor(char, current);
+      if (current && fallback === current.fallback) {
+        current.text += char;
+      } else {
+        runs.push({ text: char, fallback });
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * The PDFFont of a run, embeds its fallback into the document on first use.
+   */
+  fontFor(run: TextRun): Promise<PDFFont> {
+    return run.fallback ? this.fallbacks.embed(run.fallback) : Promise.resolve(this.primary);
+  }
+
+  widthOfTextAtSize(text: string, size: number): number {
+    return this.runs(text).reduce(
+      (width, run) =>
+        width + (run.fallback ?? this.primaryFile).widthOfTextAtSize(run.text, size),
+      0
+    );
+  }
+
+  heightAtSize(size: number): number {
+    return this.primary.heightAtSize(size);
+  }
+}
+
+export type PdfTextOptions = Omit<PDFPageDrawTextOptions, 'font' | 'maxWidth' | 'lineHeight' | 'wordBreaks'> & {
+  font: PdfTextFont;
+};
+
+/**
+ * page.drawText for a font chain, one drawText per run.
+ */
+export async function drawText(page: PDFPage, text: string, options: PdfTextOptions) {
+  const { font, x = 0, y = 0, size = 24, ...rest } = options;
+  let runX = x;
+
+  for (const run of font.runs(text)) {
+    const runFont = await font.fontFor(run);
+    page.drawText(run.text, { ...rest, x: runX, y, size, font: runFont });
+    runX += runFont.widthOfTextAtSize(run.text, size);
+  }
+}
+
+// Embedded once per document, every part of the export shares the same subsets
+const documentFonts = new WeakMap<PDFDocument, Promise<{ bodyFont: PdfTextFont; boldFont: PdfTextFont }>>();
+
+async function embedFonts(pdfDoc: PDFDocument): Promise<{ bodyFont: PdfTextFont; boldFont: PdfTextFont }> {
+  const regular = loadFontFile(MONT_REGULAR_PATH);
+  const bold = loadFontFile(MONT_BOLD_PATH);
+  if (!regular || !bold) throw new Error(`Missing Montserrat fonts in ${FONT_DIR}`);
+
+  const fallbacks = new FallbackFonts(pdfDoc);
+  return {
+    bodyFont: new PdfTextFont(await pdfDoc.embedFont(regular.bytes, { subset: true }), regular, fallbacks),
+    boldFont: new PdfTextFont(await pdfDoc.embedFont(bold.bytes, { subset: true }), bold, fallbacks),
+  };
+}
+/**
+ * Unicode-capable fonts for this PDF document (the document needs fontkit registered).
+ */
+export function getUnicodeFonts(
+  pdfDoc: PDFDocument
+): Promise<{ bodyFont: PdfTextFont; boldFont: PdfTextFont }> {
+  let fonts = documentFonts.get(pdfDoc);
+  if (!fonts) {
+    fonts = embedFonts(pdfDoc);
+    documentFonts.set(pdfDoc, fonts);
+  }
+  return fonts;
+}
@@ -0,0 +1,156 @@
+import { PDFArray, PDFDocument, PDFName, PDFPage, PDFRef, PDFString } from 'pdf-lib';
+
+// Hyperlinks of the book HTML as PDF link annotations.
+// processPage collects the rectangles of every <a href> while the page is rendered; they are
+// lost when the rendered page is embedded, so the merge step puts them back on the final page:
+//   http(s) / mailto links           -> URI action
+//   links to other topics (pk/<id>)  -> GoTo the first pdf page of that topic
+//   media and documents (pk/<id>)    -> paperclip icon of the embedded file (see pdfAttachments)
+// Links inside the same page (#anchor) and targets that are not part of the export are dropped.
+
+// One link (or media element) as collected in the browser, rectangles in CSS px from the top left of the content
+export type RenderedLink = {
+  href: string;
+  rects: { x: number; y: number; width: number; height: number }[];
+};
+
+// Link on a pdf page, rect in pt (x1, y1, x2, y2) before the gutter shift
+export type PlacedLink = {
+  href: string;
+  rect: [number, number, number, number];
+};
+
+// Where a piece of rendered content ends up on a pdf page
+export type LinkPlacement = {
+  ptPerPx: number;        // pt of the rendered PDF per CSS px
+  srcTop: number;         // shown part of the rendered content, pt from its top
+  srcBottom: number;
+  x: number;              // drawn at (x, y) with the given scale, y is the bottom edge
+  y: number;
+  scale: number;
+};
+
+// Targets inside the export, by id as used in the links
+export type LinkTargets = {
+  byResource: Map<number, PDFRef>;
+  byTopic: Map<number, PDFRef>;
+  // file specifications of the embedded attachments, by resource id
+  attachments: Map<number, PDFRef>;
+};
+
+// Size of the paperclip icon (pt)
+const ATTACHMENT_ICON_WIDTH = 14;
+const ATTACHMENT_ICON_HEIGHT = 18;
+
+/**
+ * Map the link rectangles that fall into the shown part of the content onto the pdf page.
+ * Rectangles cut by a slice border are clipped to the slice.
+ */
+export function placeLinks(links: RenderedLink[], placement: LinkPlacement): PlacedLink[] {
+  const { ptPerPx, srcTop, srcBottom, x, y, scale } = placement;
+  const placed: PlacedLink[] = [];
+
+  for (const link of links) {
+    for (const rect of link.rects) {
+      const top = Math.max(rect.y * ptPerPx, srcTop);
+      const bottom = Math.min((rect.y + rect.height) * ptPerPx, srcBottom);
+      if (bottom <= top) continue;
+
+      const x1 = x + rect.x * ptPerPx * scale;
+      const x2 = x + (rect.x + rect.width) * ptPerPx * scale;
+      const yTop = y + (srcBottom - top) * scale;
+      const yBottom = y + (srcBottom - bottom) * scale;
+      placed.push({ href: link.href, rect: [x1, yBottom, x2, yTop] });
+    }
+  }
+
+  return placed;
+}
+
+type LinkTarget =
+  | { kind: 'uri'; uri: string }
+  | { kind: 'page'; ref: PDFRef }
+  | { kind: 'attachment'; fileSpec: PDFRef };
+
+function resolveLinkTarget(href: string, targets: LinkTargets): LinkTarget | null {
+  const trimmed = href.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return { kind: 'uri', uri: trimmed };
+
+  // Same URL scheme as images and stylesheets: .../pk/<Z_PK of the resource>
+  const resourceMatch = trimmed.match(/\/pk\/(\d+)/);
+  if (resourceMatch) {
+    const id = Number(resourceMatch[1]);
+    const ref = targets.byResource.get(id);
+    if (ref) return { kind: 'page', ref };
+    const fileSpec = targets.attachments.get(id);
+    return fileSpec ? { kind: 'attachment', fileSpec } : null;
+  }
+
+  const topicMatch = trimmed.match(/\btopic[/=:](\d+)/i);
+  if (topicMatch) {
+    const ref = targets.byTopic.get(Number(topicMatch[1]));
+    return ref ? { kind: 'page', ref } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Add link annotations to one page, shifted horizontally like the content (gutter).
+ */
+export function addLinkAnnotations(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  links: PlacedLink[],
+  shiftX: number,
+  targets: LinkTargets
+) {
+  const { context } = pdfDoc;
+
+  for (const { href, rect } of links) {
+    const target = resolveLinkTarget(href, targets);
+    if (!target) continue;
+
+    let annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    if (!annots) {
+      annots = context.obj([]) as PDFArray;
+      page.node.set(PDFName.of('Annots'), annots);
+    }
+
+    const [x1, y1, x2, y2] = rect;
+
+    // Paperclip at the top left of the element, viewers open the file from there
+    if (target.kind === 'attachment') {
+      annots.push(context.register(
+        context.obj({
+          Type: PDFName.of('Annot'),
+          Subtype: PDFName.of('FileAttachment'),
+          Rect: [
+            x1 + shiftX,
+            y2 - ATTACHMENT_ICON_HEIGHT,
+            x1 + shiftX + ATTACHMENT_ICON_WIDTH,
+            y2,
+          ],
+          FS: target.fileSpec,
+          Name: PDFName.of('Paperclip'),
+          F: 4,
+        })
+      ));
+      continue;
+    }
+
+    const action = target.kind === 'uri'
+      ? { A: { Type: PDFName.of('Action'), S: PDFName.of('URI'), URI: PDFString.of(target.uri) } }
+      : { Dest: [target.ref, 'XYZ', null, null, null] };
+
+    annots.push(context.register(
+      context.obj({
+        Type: PDFName.of('Annot'),
+        Subtype: PDFName.of('Link'),
+        Rect: [x1 + shiftX, y1, x2 + shiftX, y2],
+        Border: [0, 0, 0],
+        ...action,
+      })
+    ));
+  }
+}
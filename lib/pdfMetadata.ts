@@ -0,0 +1,159 @@
+import sqlite from 'better-sqlite3';
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { getResolvedPaths } from '@/lib/config';
+import { escapeXml } from '@/lib/exportResources';
+import type { Book } from '@/lib/pdfExport';
+
+// PDF document metadata (Info dictionary + XMP) from the course definition,
+// so document managers can index the exports by title, ISBN and language.
+
+export type CourseMetadata = {
+  courseId: string;         // ZILPCOURSEDEF.ZCOURSEID, e.g. PPL020A
+  isbn: string;             // ZILPCOURSEDEF.ZREFERENCE, e.g. 978-3-905036-95-4
+  title: string;            // ZILPCOURSESERIES.ZTITLE
+  lang: string;             // ZILPCOURSEDEF.ZLANGUAGECODE, e.g. DE
+  author: string | null;    // ZAUTHOR / ZPUBLISHER when the database has them
+};
+
+const CREATOR_TOOL = 'Beook2PDF';
+
+/**
+ * Look up the course definition of every toggled book.
+ * Falls back to the fields of the Book object when a row or column is missing.
+ */
+export function loadCourseMetadata(books: Book[]): CourseMetadata[] {
+  const toggledBooks = books.filter((book) => book.Toggled);
+  if (toggledBooks.length === 0) return [];
+
+  let db: sqlite.Database | null = null;
+  try {
+    db = sqlite(getResolvedPaths().dbPath, { readonly: true });
+
+    // SELECT *: author / publisher columns are not present in every Beook version
+    const courseStmt = db.prepare(`SELECT * FROM ZILPCOURSEDEF WHERE "Z_PK" = ?`);
+    const titleStmt = db.prepare(
+      `SELECT "ZTITLE" FROM ZILPCOURSESERIES WHERE "ZCOURSEIDENTIFIER" = ? AND "ZTITLE" IS NOT NULL`
+    );
+
+    return toggledBooks.map((book) => {
+      const row = (courseStmt.get(Number(book.BookID)) ?? {}) as Record<string, unknown>;
+      const courseId = String(row['ZCOURSEID'] ?? book.CourseName ?? '').trim();
+      const titleRow = courseId
+        ? (titleStmt.get(courseId) as { ZTITLE?: string } | undefined)
+        : undefined;
+      const author = row['ZAUTHOR'] ?? row['ZPUBLISHER'] ?? null;
+
+      return {
+        courseId,
+        isbn: String(row['ZREFERENCE'] ?? book.Refrence ?? '').trim(),
+        title: String(titleRow?.ZTITLE ?? book.Titel ?? '').trim() || courseId,
+        lang: String(row['ZLANGUAGECODE'] ?? book.Lang ?? '').trim(),
+        author: author != null && String(author).trim() ? String(author).trim() : null,
+      };
+    });
+  } catch (err) {
+    console.error('Failed to read course metadata, using book data instead:', err);
+    return toggledBooks.map((book) => ({
+      courseId: book.CourseName ?? '',
+      isbn: book.Refrence ?? '',
+      title: book.Titel || book.CourseName || '',
+      lang: book.Lang ?? '',
+      author: null,
+    }));
+  } finally {
+    db?.close();
+  }
+}
+
+// BCP 47 tag for /Lang and dc:language ("DE" -> "de")
+function toLanguageTag(lang: string): string {
+  return lang.trim().replace(/_/g, '-').toLowerCase();
+}
+
+function xmpDate(date: Date): string {
+  return date.toISOString().replace(/\.\d+Z$/, 'Z');
+}
+
+function xmpAlt(values: string[]): string {
+  return `<rdf:Alt>${values.map((v) => `<rdf:li xml:lang="x-default">${escapeXml(v)}</rdf:li>`).join('')}</rdf:Alt>`;
+}
+
+function xmpList(kind: 'Bag' | 'Seq', values: string[]): string {
+  return `<rdf:${kind}>${values.map((v) => `<rdf:li>${escapeXml(v)}</rdf:li>`).join('')}</rdf:${kind}>`;
+}
+
+function buildXmpPacket(fields: {
+  title: string;
+  subject: string;
+  keywords: string[];
+  authors: string[];
+  languages: string[];
+  isbns: string[];
+  date: Date;
+}): string {
+  const { title, subject, keywords, authors, languages, isbns, date } = fields;
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about=""
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+  xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+  xmlns:prism="http://prismstandard.org/namespaces/basic/2.0/">
+<dc:format>application/pdf</dc:format>
+<dc:title>${xmpAlt([title])}</dc:title>
+${subject ? `<dc:description>${xmpAlt([subject])}</dc:description>` : ''}
+${authors.length ? `<dc:creator>${xmpList('Seq', authors)}</dc:creator>` : ''}
+${keywords.length ? `<dc:subject>${xmpList('Bag', keywords)}</dc:subject>` : ''}
+${languages.length ? `<dc:language>${xmpList('Bag', languages)}</dc:language>` : ''}
+${isbns.length === 1 ? `<dc:identifier>urn:isbn:${escapeXml(isbns[0])}</dc:identifier>` : ''}
+${isbns.length === 1 ? `<prism:isbn>${escapeXml(isbns[0])}</prism:isbn>` : ''}
+${isbns.length > 1 ? `<dc:relation>${xmpList('Bag', isbns.map((isbn) => `urn:isbn:${isbn}`))}</dc:relation>` : ''}
+<xmp:CreatorTool>${CREATOR_TOOL}</xmp:CreatorTool>
+<xmp:CreateDate>${xmpDate(date)}</xmp:CreateDate>
+<xmp:ModifyDate>${xmpDate(date)}</xmp:ModifyDate>
+<xmp:MetadataDate>${xmpDate(date)}</xmp:MetadataDate>
+<pdf:Producer>${CREATOR_TOOL}</pdf:Producer>
+${keywords.length ? `<pdf:Keywords>${escapeXml(keywords.join(', '))}</pdf:Keywords>` : ''}
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`.replace(/\n{2,}/g, '\n');
+}
+
+/**
+ * Write title, author, subject, keywords and language into the Info dictionary
+ * and the same data as XMP metadata stream into the catalog.
+ * Multi-book exports get a combined title and every ISBN in the keywords.
+ */
+export function applyPdfMetadata(pdfDoc: PDFDocument, courses: CourseMetadata[], date: Date = new Date()) {
+  if (courses.length === 0) return;
+
+  const title = courses.map((c) => c.title).filter(Boolean).join(' / ');
+  const courseIds = courses.map((c) => c.courseId).filter(Boolean);
+  const isbns = courses.map((c) => c.isbn).filter(Boolean);
+  const authors = [...new Set(courses.map((c) => c.author).filter((a): a is string => !!a))];
+  const languages = [...new Set(courses.map((c) => toLanguageTag(c.lang)).filter(Boolean))];
+  const subject = courseIds.join(', ');
+  const keywords = [...courseIds, ...isbns.map((isbn) => `ISBN ${isbn}`)];
+
+  if (title) pdfDoc.setTitle(title, { showInWindowTitleBar: true });
+  if (authors.length) pdfDoc.setAuthor(authors.join(', '));
+  if (subject) pdfDoc.setSubject(subject);
+  // pdf-lib joins keywords with spaces, "ISBN 978-..." needs a clearer separator
+  if (keywords.length) pdfDoc.setKeywords([keywords.join(', ')]);
+  if (languages.length) pdfDoc.setLanguage(languages[0]);
+  pdfDoc.setCreator(CREATOR_TOOL);
+  pdfDoc.setProducer(CREATOR_TOOL);
+  pdfDoc.setCreationDate(date);
+  pdfDoc.setModificationDate(date);
+
+  const xmp = buildXmpPacket({ title, subject, keywords, authors, languages, isbns, date });
+  // XMP is UTF-8 and stays uncompressed so indexers can find it without parsing the PDF
+  const metadataStream = pdfDoc.context.stream(new Uint8Array(Buffer.from(xmp, 'utf-8')), {
+    Type: 'Metadata',
+    Subtype: 'XML',
+  });
+  pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(metadataStream));
+}
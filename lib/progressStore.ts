@@ -1,17 +1,17 @@
-const progressMap: Record<string, number> = {};
-
 // Phase-based progress system
 // Each phase has a name and a weight (percentage of total progress)
 // Weights should sum to 100
 type Phase = { name: string; weight: number };
 
 const PHASES: Phase[] = [
-  { name: 'init', weight: 2 },       // Initial setup
-  { name: 'fetch', weight: 18 },     // Fetching data from database
-  { name: 'process', weight: 24 },   // Processing HTML content
-  { name: 'convert', weight: 48 },   // Converting pages to PDF
-  { name: 'merge', weight: 5 },      // Merging PDF documents
-  { name: 'finalize', weight: 3 },   // Creating TOC and final touches
+  { name: 'init', weight: 2 },          // Initial setup
+  { name: 'fetch', weight: 16 },        // Fetching data from database
+  { name: 'process', weight: 20 },      // Processing HTML content
+  { name: 'convert', weight: 44 },      // Converting pages to PDF
+  { name: 'merge', weight: 5 },         // Merging PDF documents and TOC pages
+  { name: 'quiz-decrypt', weight: 3 },  // Decrypting quiz tables
+  { name: 'quiz-insert', weight: 6 },   // Adding quiz and solution pages
+  { name: 'finalize', weight: 4 },      // Outline and saving
 ];
 
 // Pre-calculate phase start percentages for efficiency
@@ -22,13 +22,159 @@ for (const phase of PHASES) {
   cumulative += phase.weight;
 }
 
+export type ProgressStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// What the progress stream sends to the client, one JSON object per event
+export type ProgressEvent = {
+  phase: string | null;
+  percent: number;            // 0-100 over all phases
+  current: number | null;     // items done in the current phase (rows, pages, books)
+  total: number | null;       // items in the current phase
+  etaSeconds: number | null;  // estimated time left, null while unknown
+  part: { current: number; total: number } | null;  // file being built when the export is split
+  warnings: string[];
+  // image bytes before and after downsampling / recompression, summed over all parts
+  imageSavings: { originalBytes: number; compressedBytes: number } | null;
+  status: ProgressStatus;
+  error: string | null;
+};
+
+type ProgressListener = (event: ProgressEvent) => void;
+
+type JobProgress = {
+  event: ProgressEvent;
+  startedAt: number | null;
+  // Split exports run all phases once per part, each part gets an equal share of 0-100
+  part: { index: number; count: number };
+  listeners: Set<ProgressListener>;
+  // Set once the job has a final status, removes the job from progressMap
+  cleanupTimer: NodeJS.Timeout | null;
+};
+
+const progressMap: Record<string, JobProgress> = {};
+
+// Below this the ETA would mostly be guesswork
+const MIN_PERCENT_FOR_ETA = 3;
+
+// Finished jobs are forgotten after this long, until then late progress streams get the final state
+const FINISHED_JOB_RETENTION_MS = 10 * 60 * 1000;
+
+function getJobProgress(jobId: string): JobProgress {
+  if (!progressMap[jobId]) {
+    progressMap[jobId] = {
+      event: {
+        phase: null,
+        percent: 0,
+        current: null,
+        total: null,
+        etaSeconds: null,
+        part: null,
+        warnings: [],
+        imageSavings: null,
+        status: 'running',
+        error: null,
+      },
+      startedAt: null,
+      part: { index: 0, count: 1 },
+      listeners: new Set(),
+      cleanupTimer: null,
+    };
+  }
+  return progressMap[jobId];
+}
+
+function isFinalStatus(status: ProgressStatus): boolean {
+  return status !== 'running' && status !== 'queued';
+}
+
+function emit(jobId: string, patch: Partial<ProgressEvent>) {
+  const job = getJobProgress(jobId);
+  const event = { ...job.event, ...patch };
+
+  if (event.status === 'running' && job.startedAt == null) {
+    job.startedAt = Date.now();
+  }
+
+  if (event.status !== 'running') {
+    event.etaSeconds = null;
+  } else if (job.startedAt != null && event.percent >= MIN_PERCENT_FOR_ETA && event.percent < 100) {
+    const elapsed = (Date.now() - job.startedAt) / 1000;
+    event.etaSeconds = Math.round((elapsed / event.percent) * (100 - event.percent));
+  } else {
+    event.etaSeconds = null;
+  }
+
+  notify(jobId, event);
+}
+
+function notify(jobId: string, event: ProgressEvent) {
+  const job = getJobProgress(jobId);
+  job.event = event;
+
+  // A job id can be reused (see clearCancelled), a new run keeps its progress
+  if (job.cleanupTimer) clearTimeout(job.cleanupTimer);
+  job.cleanupTimer = null;
+  if (isFinalStatus(event.status)) {
+    job.cleanupTimer = setTimeout(() => clearProgress(jobId), FINISHED_JOB_RETENTION_MS);
+    job.cleanupTimer.unref();
+  }
+
+  for (const listener of job.listeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.warn('Progress listener failed:', err);
+    }
+  }
+}
+
+/**
+ * Start (or restart) progress reporting for a job.
+ * Resets percentage, counts and warnings, the ETA is measured from here.
+ */
+export function startProgress(jobId: string) {
+  const job = getJobProgress(jobId);
+  job.startedAt = Date.now();
+  job.part = { index: 0, count: 1 };
+  emit(jobId, {
+    phase: null,
+    percent: 0,
+    current: null,
+    total: null,
+    part: null,
+    warnings: [],
+    imageSavings: null,
+    status: 'running',
+    error: null,
+  });
+}
+
+/**
+ * Report that the export now builds part index (0-based) of count.
+ * Phase progress is scaled into that part's share of the total.
+ */
+export function setProgressPart(jobId: string, index: number, count: number) {
+  const job = getJobProgress(jobId);
+  job.part = { index, count: Math.max(1, count) };
+  emit(jobId, {
+    part: count > 1 ? { current: index + 1, total: count } : null,
+    percent: Math.floor((index / job.part.count) * 100),
+  });
+}
+
 /**
  * Set progress within a specific phase.
  * @param jobId - The job identifier
  * @param phaseName - The name of the phase (e.g., 'fetch', 'convert')
  * @param progress - Progress within the phase (0 to 1)
+ * @param counts - Optional item counts shown next to the phase (e.g. pages rendered)
  */
-export function setPhaseProgress(jobId: string, phaseName: string, progress: number) {
+export function setPhaseProgress(
+  jobId: string,
+  phaseName: string,
+  progress: number,
+  counts?: { current: number; total: number }
+) {
   const phase = PHASES.find(p => p.name === phaseName);
   if (!phase) {
     console.warn(`Unknown phase: ${phaseName}`);
@@ -37,24 +183,197 @@ export function setPhaseProgress(jobId: string, phaseName: string, progress: num
 
   const clampedProgress = Math.max(0, Math.min(1, progress));
   const phaseStart = phaseStartMap[phaseName];
-  const absoluteProgress = Math.floor(phaseStart + (phase.weight * clampedProgress));
-  
-  progressMap[jobId] = absoluteProgress;
+  const { index, count } = getJobProgress(jobId).part;
+  const absoluteProgress = Math.floor(
+    (index * 100 + phaseStart + (phase.weight * clampedProgress)) / count
+  );
+
+  emit(jobId, {
+    phase: phaseName,
+    percent: absoluteProgress,
+    current: counts?.current ?? null,
+    total: counts?.total ?? null,
+  });
+}
+
+/**
+ * Set progress of consecutive phases that run interleaved, e.g. when every issue is
+ * prepared and rendered before the next one is read. Each phase counts with its weight,
+ * so the total keeps growing while the event switches between the phases.
+ * @param jobId - The job identifier
+ * @param progress - Progress within each of the phases (0 to 1), by phase name
+ * @param activePhase - The phase shown to the user
+ * @param counts - Optional item counts shown next to the phase
+ */
+export function setInterleavedPhaseProgress(
+  jobId: string,
+  progress: Record<string, number>,
+  activePhase: string,
+  counts?: { current: number; total: number }
+) {
+  const phases = PHASES.filter(p => p.name in progress);
+  if (phases.length === 0) {
+    console.warn(`Unknown phases: ${Object.keys(progress).join(', ')}`);
+    return;
+  }
+
+  const phaseStart = Math.min(...phases.map(p => phaseStartMap[p.name]));
+  const phaseProgress = phases.reduce(
+    (sum, p) => sum + p.weight * Math.max(0, Math.min(1, progress[p.name])),
+    0
+  );
+  const { index, count } = getJobProgress(jobId).part;
+
+  emit(jobId, {
+    phase: activePhase,
+    percent: Math.floor((index * 100 + phaseStart + phaseProgress) / count),
+    current: counts?.current ?? null,
+    total: counts?.total ?? null,
+  });
 }
 
 /**
  * Set progress directly (for backwards compatibility)
  */
 export function setProgress(jobId: string, value: number) {
-  progressMap[jobId] = value;
+  emit(jobId, { percent: value });
+}
+
+/**
+ * Record a non-fatal problem; the export goes on, the user sees the warning.
+ */
+export function addProgressWarning(jobId: string, warning: string) {
+  const job = getJobProgress(jobId);
+  emit(jobId, { warnings: [...job.event.warnings, warning] });
+}
+
+/**
+ * Add the image bytes of one (part of the) export before and after processing.
+ */
+export function addImageSavings(jobId: string, originalBytes: number, compressedBytes: number) {
+  if (originalBytes <= 0) return;
+  const previous = getJobProgress(jobId).event.imageSavings;
+  emit(jobId, {
+    imageSavings: {
+      originalBytes: (previous?.originalBytes ?? 0) + originalBytes,
+      compressedBytes: (previous?.compressedBytes ?? 0) + compressedBytes,
+    },
+  });
+}
+
+/**
+ * Set the overall job status, e.g. 'done' once the PDF is written.
+ */
+export function setProgressStatus(jobId: string, status: ProgressStatus, error: string | null = null) {
+  emit(jobId, {
+    status,
+    error,
+    ...(status === 'done' ? { percent: 100 } : {}),
+  });
+}
+
+/**
+ * Take over an event as it was reported elsewhere (by the export worker), ETA included.
+ */
+export function setProgressEvent(jobId: string, event: ProgressEvent) {
+  notify(jobId, { ...event });
 }
 
 export function getProgress(jobId: string): number {
-  return progressMap[jobId] || 0;
+  return progressMap[jobId]?.event.percent || 0;
+}
+
+/**
+ * The current state of a job, null if nothing was reported for it (yet or anymore).
+ */
+export function getProgressEvent(jobId: string): ProgressEvent | null {
+  return progressMap[jobId]?.event ?? null;
+}
+
+/**
+ * Listen for the next progress events of a job, see getProgressEvent for the current state.
+ * @returns a function that removes the listener
+ */
+export function subscribeProgress(jobId: string, listener: ProgressListener): () => void {
+  const job = getJobProgress(jobId);
+  job.listeners.add(listener);
+
+  return () => {
+    job.listeners.delete(listener);
+  };
 }
 
+/**
+ * Forget a job, its progress and whether it was cancelled.
+ */
 export function clearProgress(jobId: string) {
+  const job = progressMap[jobId];
+  if (job?.cleanupTimer) clearTimeout(job.cleanupTimer);
   delete progressMap[jobId];
+  cancelledJobs.delete(jobId);
+}
+
+// Cancellation
+// Cancelling only flags the job; the export pipeline checks the flag between
+// phases and pages and unwinds by throwing ExportCancelledError.
+const cancelledJobs = new Set<string>();
+const cancelListeners: Record<string, Set<() => void>> = {};
+
+export class ExportCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Export job ${jobId} was cancelled`);
+    this.name = 'ExportCancelledError';
+  }
+}
+
+/**
+ * Request cancellation of a running job.
+ * @param jobId - The job identifier
+ */
+export function requestCancel(jobId: string) {
+  cancelledJobs.add(jobId);
+  for (const listener of cancelListeners[jobId] ?? []) {
+    try {
+      listener();
+    } catch (err) {
+      console.warn('Cancel listener failed:', err);
+    }
+  }
+}
+
+/**
+ * Get notified when cancellation of a job is requested, e.g. to pass it on to the export worker.
+ * @returns a function that removes the listener
+ */
+export function onCancelRequested(jobId: string, listener: () => void): () => void {
+  const listeners = (cancelListeners[jobId] ??= new Set());
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) delete cancelListeners[jobId];
+  };
+}
+
+export function isCancelled(jobId: string): boolean {
+  return cancelledJobs.has(jobId);
+}
+
+/**
+ * Throw ExportCancelledError if the job has been cancelled.
+ * Call this at every point where the pipeline can safely stop.
+ */
+export function throwIfCancelled(jobId: string) {
+  if (cancelledJobs.has(jobId)) {
+    throw new ExportCancelledError(jobId);
+  }
+}
+
+/**
+ * Reset the cancelled state, e.g. when a job id is reused for a new export.
+ */
+export function clearCancelled(jobId: string) {
+  cancelledJobs.delete(jobId);
 }
 
 // Export phases for external use (e.g., adding new phases dynamically)
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getConfigDir } from '@/lib/config';
+import type { RenderedPage } from '@/lib/pdfExport';
+import type { RenderedLink } from '@/lib/pdfLinks';
+
+// Page-level render cache
+// Every page Puppeteer renders is stored as <key>.pdf plus <key>.json (size, break points, links)
+// in <config dir>/render-cache. The key is a hash of the final page HTML and the render
+// settings, so re-exports only render pages whose content or layout actually changed.
+// Reading an entry touches its meta file, so the mtime tells when it was last used; after an
+// export the cache is pruned to entries used within MAX_CACHE_AGE_MS, least recently used
+// entries go first while it is larger than MAX_CACHE_BYTES.
+
+// Bump when processPage changes in a way that makes old renders wrong
+const RENDER_CACHE_VERSION = 3;
+
+const MAX_CACHE_BYTES = 1024 * 1024 * 1024;
+const MAX_CACHE_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+type CachedRenderMeta = {
+  width: number;
+  height: number;
+  breakPoints: number[];
+  links: RenderedLink[];
+};
+
+export type RenderCacheStats = {
+  entries: number;
+  bytes: number;
+};
+
+function getCacheDir(): string {
+  const dir = path.join(getConfigDir(), 'render-cache');
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+/**
+ * Cache key for one page: the HTML as it goes into Puppeteer plus everything
+ * that changes how it is rendered (viewport, ...).
+ */
+export function getRenderCacheKey(html: string, settings: Record<string, unknown>): string {
+  return crypto
+    .createHash('sha256')
+    .update(`v${RENDER_CACHE_VERSION}\n`)
+    .update(JSON.stringify(settings))
+    .update('\n')
+    .update(html)
+    .digest('hex');
+}
+
+export function readCachedRender(key: string): RenderedPage | null {
+  const dir = getCacheDir();
+  const pdfFile = path.join(dir, `${key}.pdf`);
+  const metaFile = path.join(dir, `${key}.json`);
+
+  try {
+    if (!fs.existsSync(pdfFile) || !fs.existsSync(metaFile)) return null;
+
+    const meta = JSON.parse(fs.readFileSync(metaFile, 'utf-8')) as CachedRenderMeta;
+    const now = new Date();
+    fs.utimesSync(metaFile, now, now);
+    return {
+      pdf: fs.readFileSync(pdfFile),
+      width: meta.width,
+      height: meta.height,
+      breakPoints: meta.breakPoints,
+      links: meta.links ?? [],
+    };
+  } catch (error) {
+    // A broken entry is just a cache miss, it gets overwritten by the next render
+    console.warn(`Ignoring broken render cache entry ${key}:`, error);
+    return null;
+  }
+}
+
+export function writeCachedRender(key: string, rendered: RenderedPage) {
+  const dir = getCacheDir();
+  const meta: CachedRenderMeta = {
+    width: rendered.width,
+    height: rendered.height,
+    breakPoints: rendered.breakPoints,
+    links: rendered.links,
+  };
+
+  try {
+    // The meta file is written last, so a half-written entry is never read back
+    fs.writeFileSync(path.join(dir, `${key}.pdf`), rendered.pdf);
+    fs.writeFileSync(path.join(dir, `${key}.json`), JSON.stringify(meta), 'utf-8');
+  } catch (error) {
+    // The export itself does not depend on the cache
+    console.warn(`Could not write render cache entry ${key}:`, error);
+  }
+}
+
+export function getRenderCacheStats(): RenderCacheStats {
+  const dir = getCacheDir();
+  let entries = 0;
+  let bytes = 0;
+
+  for (const name of fs.readdirSync(dir)) {
+    if (name.endsWith('.json')) entries++;
+    bytes += fs.statSync(path.join(dir, name)).size;
+  }
+
+  return { entries, bytes };
+}
+
+/**
+ * Remove every cached page render.
+ * @returns what was removed
+ */
+export function clearRenderCache(): RenderCacheStats {
+  const stats = getRenderCacheStats();
+  fs.rmSync(getCacheDir(), { recursive: true, force: true });
+  return stats;
+}
+
+/**
+ * Drop entries not used within MAX_CACHE_AGE_MS, then the least recently used ones until the
+ * cache fits into MAX_CACHE_BYTES. Half-written entries (pdf without meta file) count as
+ * entries of their own and age out the same way.
+ * @returns what was removed
+ */
+export function pruneRenderCache(): RenderCacheStats {
+  const dir = getCacheDir();
+  const entries = new Map<string, { files: string[]; bytes: number; lastUsed: number }>();
+
+  for (const name of fs.readdirSync(dir)) {
+    const key = path.parse(name).name;
+    const file = path.join(dir, name);
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(file);
+    } catch {
+      continue;
+    }
+
+    const entry = entries.get(key) ?? { files: [], bytes: 0, lastUsed: 0 };
+    entry.files.push(file);
+    entry.bytes += stat.size;
+    entry.lastUsed = Math.max(entry.lastUsed, stat.mtimeMs);
+    entries.set(key, entry);
+  }
+
+  const byLastUse = [...entries.values()].sort((a, b) => a.lastUsed - b.lastUsed);
+  let bytes = byLastUse.reduce((sum, entry) => sum + entry.bytes, 0);
+  const oldestKept = Date.now() - MAX_CACHE_AGE_MS;
+  const removed: RenderCacheStats = { entries: 0, bytes: 0 };
+
+  for (const entry of byLastUse) {
+    if (entry.lastUsed >= oldestKept && bytes <= MAX_CACHE_BYTES) break;
+
+    try {
+      for (const file of entry.files) fs.rmSync(file, { force: true });
+    } catch (error) {
+      console.warn('Could not remove render cache entry:', error);
+      continue;
+    }
+    bytes -= entry.bytes;
+    removed.entries++;
+    removed.bytes += entry.bytes;
+  }
+
+  return removed;
+}
@@ -0,0 +1,147 @@
+import sqlite from 'better-sqlite3';
+import { getResolvedPaths } from '@/lib/config';
+
+// Lazy access to the book resources (ZILPRESOURCE) while the topic pages are built.
+// Only the topic pages of the exported issues are listed up front (ids, no data); page HTML,
+// images, stylesheets and fonts are read by their Z_PK when a page needs them.
+// Images, stylesheets and fonts are shared by the pages of an issue, so they are cached
+// until release(), which the export calls once an issue is done.
+
+export type TopicPageRow = {
+  zpk: number;
+  topic: number;
+  issue: number;
+};
+
+type ResourceRow = {
+  ZDATA: unknown;
+  ZMEDIATYPE: string | null;
+};
+
+// Map ZMEDIATYPE → MIME type we want in the data: URL
+function mapFontMimeType(mediatype?: string | null): string {
+  if (!mediatype) return 'font/woff';
+
+  const mt = mediatype.toLowerCase();
+
+  if (mt.includes('font-woff')) return 'font/woff';
+  if (mt.includes('font-ttf')) return 'font/ttf';
+  if (mt.includes('opentype')) return 'font/otf';
+
+  // Fallback – most of your fonts are application/font-woff
+  return 'font/woff';
+}
+
+function toBuffer(data: unknown): Buffer {
+  return Buffer.isBuffer(data) ? data : Buffer.from(data as any);
+}
+
+function toText(data: unknown): string {
+  return data == null ? '' : String(data);
+}
+
+export class ResourceReader {
+  private db: sqlite.Database;
+  private topicPagesStatement: sqlite.Statement;
+  private resourceStatement: sqlite.Statement;
+  private stylesheetIdsStatement: sqlite.Statement;
+  // data: URLs and stylesheets of the current issue, by Z_PK
+  private cache = new Map<string, string | null>();
+  private stylesheetIds = new Map<number, number[]>();
+
+  constructor() {
+    this.db = sqlite(getResolvedPaths().dbPath, { readonly: true });
+    this.topicPagesStatement = this.db.prepare(
+      `SELECT "Z_PK", "ZTOPIC" FROM ZILPRESOURCE
+       WHERE "ZISSUE" = ? AND "ZTOPIC" IS NOT NULL AND "ZTOPIC" != 0
+       ORDER BY "ZTOPIC", "Z_PK"`
+    );
+    this.resourceStatement = this.db.prepare(`SELECT "ZDATA", "ZMEDIATYPE" FROM ZILPRESOURCE WHERE "Z_PK" = ?`);
+    this.stylesheetIdsStatement = this.db.prepare(
+      `SELECT "Z_PK" FROM ZILPRESOURCE WHERE "ZISSUE" = ? AND "ZMEDIATYPE" = 'text/css' ORDER BY "Z_PK"`
+    );
+  }
+
+  /**
+   * The topic pages of an issue in reading order, without their HTML.
+   */
+  listTopicPages(issue: number): TopicPageRow[] {
+    const rows = this.topicPagesStatement.all(issue) as { Z_PK: number; ZTOPIC: number }[];
+    return rows.map((row) => ({ zpk: Number(row.Z_PK), topic: Number(row.ZTOPIC), issue }));
+  }
+
+  private getRow(zpk: number): ResourceRow | null {
+    const row = this.resourceStatement.get(zpk) as ResourceRow | undefined;
+    return row && row.ZDATA != null ? row : null;
+  }
+
+  private cached(key: string, load: () => string | null): string | null {
+    if (!this.cache.has(key)) this.cache.set(key, load());
+    return this.cache.get(key) ?? null;
+  }
+
+  /**
+   * The HTML of a topic page, read once per page so it is not cached.
+   */
+  getTopicHtml(zpk: number): string {
+    return toText(this.getRow(zpk)?.ZDATA);
+  }
+
+  /**
+   * An image as data: URL, null if the resource is missing or no image.
+   */
+  getImageDataUrl(zpk: number): string | null {
+    return this.cached(`image:${zpk}`, () => {
+      const row = this.getRow(zpk);
+      if (!row?.ZMEDIATYPE?.startsWith('image/')) return null;
+      return `data:${row.ZMEDIATYPE};base64,${toBuffer(row.ZDATA).toString('base64')}`;
+    });
+  }
+
+  /**
+   * A font as data: URL for @font-face, null if the resource is missing.
+   */
+  getFontDataUrl(zpk: number): string | null {
+    return this.cached(`font:${zpk}`, () => {
+      const row = this.getRow(zpk);
+      if (!row) return null;
+      return `data:${mapFontMimeType(row.ZMEDIATYPE)};base64,${toBuffer(row.ZDATA).toString('base64')}`;
+    });
+  }
+
+  /**
+   * The text of a stylesheet, null if the resource is missing or an image.
+   */
+  getStylesheet(zpk: number): string | null {
+    return this.cached(`css:${zpk}`, () => {
+      const row = this.getRow(zpk);
+      if (!row || row.ZMEDIATYPE?.startsWith('image/')) return null;
+      return toText(row.ZDATA);
+    });
+  }
+
+  /**
+   * Every stylesheet of an issue, linked from a page or not.
+   */
+  getIssueStylesheetIds(issue: number): number[] {
+    let ids = this.stylesheetIds.get(issue);
+    if (!ids) {
+      ids = (this.stylesheetIdsStatement.all(issue) as { Z_PK: number }[]).map((row) => Number(row.Z_PK));
+      this.stylesheetIds.set(issue, ids);
+    }
+    return ids;
+  }
+
+  /**
+   * Forget the cached resources, call once the pages of an issue are built.
+   */
+  release() {
+    this.cache.clear();
+    this.stylesheetIds.clear();
+  }
+
+  close() {
+    this.release();
+    this.db.close();
+  }
+}
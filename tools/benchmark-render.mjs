@@ -0,0 +1,219 @@
+// tools/benchmark-render.mjs
+// Compares the two Puppeteer render strategies of the PDF export:
+// - page by page:  one setContent + page.pdf per topic page, in tabs of 20 pages (default)
+// - whole issues:  the topic pages go into documents of up to 100 topics with a single
+//                  page.pdf each, built and split by lib/issueRender.ts like in the export
+//
+// Usage:
+//   node tools/benchmark-render.mjs [pages=200] [dir]
+// With a directory, its *.html files are used as topic pages (e.g. pages saved from an export),
+// otherwise synthetic pages with text, a table and an inline image are generated.
+// Only the rendering is measured, merging, TOC and quiz pages are the same for both strategies.
+// Peak memory is the largest resident size of all Chrome processes together, sampled from /proc
+// while rendering, so it is only reported on Linux; the Node process (splitting) is listed apart.
+// Set PUPPETEER_EXECUTABLE_PATH to benchmark another Chrome build than the one of Puppeteer.
+
+import { readdir, readFile } from "node:fs/promises";
+import { readdirSync, readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import process from "node:process";
+import puppeteer from "puppeteer";
+
+// Same values as lib/pdfExport.ts (A4)
+const RENDER_DPI = 294.3;
+const PAGE_WIDTH_PT = 595.28;
+const PAGE_HEIGHT_PT = 841.89;
+const VIEWPORT = {
+  width: Math.round((PAGE_WIDTH_PT / 72) * RENDER_DPI),
+  height: Math.round((PAGE_HEIGHT_PT / 72) * RENDER_DPI),
+};
+const PAGES_PER_TAB = 20;
+// Same value as generateMergedPdf
+const ISSUE_TABS = 2;
+const MEMORY_SAMPLE_MS = 100;
+
+// 1x1 gray PNG, enough to make every page carry an image
+const IMAGE =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGNoAAAAggCBd81ytgAAAABJRU5ErkJggg==";
+
+function syntheticPage(n) {
+  const paragraphs = Array.from(
+    { length: 12 },
+    (_, i) => `<p>Topic ${n}, paragraph ${i + 1}. Lorem ipsum dolor sit amet, consectetur adipiscing elit, ` +
+      `sed do eiusmod tempor incididunt ut labore et dolore magna aliqua.</p>`
+  ).join("\n");
+  const rows = Array.from({ length: 10 }, (_, i) => `<tr><td>${i}</td><td>${i * n}</td></tr>`).join("");
+
+  return `<html><head><style>body { font: 40px serif; padding: 40px 60px; }</style></head>
+<body><h1>Topic ${n}</h1>${paragraphs}<img src="${IMAGE}" style="width: 800px; height: 400px">
+<table>${rows}</table></body></html>`;
+}
+
+// lib/issueRender.ts only imports types from the rest of the app, so it can be loaded on its
+// own once the TypeScript of the project has transpiled it
+function loadIssueRender() {
+  const require = createRequire(import.meta.url);
+  const ts = require("typescript");
+  const file = fileURLToPath(new URL("../lib/issueRender.ts", import.meta.url));
+  const { outputText } = ts.transpileModule(readFileSync(file, "utf-8"), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+  });
+  const module = { exports: {} };
+  new Function("module", "exports", "require", outputText)(module, module.exports, require);
+  return module.exports;
+}
+
+const { buildIssueDocument, groupIssuePages, splitIssuePdf, ISSUE_LINK_ORIGIN } = loadIssueRender();
+
+async function loadPages(count, dir) {
+  if (!dir) return Array.from({ length: count }, (_, i) => syntheticPage(i + 1));
+
+  const files = (await readdir(dir)).filter((f) => f.endsWith(".html")).sort().slice(0, count);
+  return Promise.all(files.map((f) => readFile(path.join(dir, f), "utf-8")));
+}
+
+async function renderPageByPage(browser, pages) {
+  let bytes = 0;
+  const renderBatch = async (batch) => {
+    const tab = await browser.newPage();
+    await tab.setViewport(VIEWPORT);
+    for (const html of batch) {
+      await tab.setContent(html, { waitUntil: ["domcontentloaded", "load"] });
+      const size = await tab.evaluate(() => ({
+        width: Math.max(document.body.scrollWidth, document.documentElement.scrollWidth, 1),
+        height: Math.max(document.body.scrollHeight, document.documentElement.scrollHeight, 1),
+      }));
+      const pdf = await tab.pdf({ ...size, printBackground: true, margin: { top: 0, right: 0, bottom: 0, left: 0 } });
+      bytes += pdf.length;
+    }
+    await tab.close();
+  };
+
+  const batches = [];
+  for (let i = 0; i < pages.length; i += PAGES_PER_TAB) batches.push(renderBatch(pages.slice(i, i + PAGES_PER_TAB)));
+  await Promise.all(batches);
+  return { bytes, pdfPages: pages.length };
+}
+
+// Like processIssue of lib/pdfExport.ts, without ink saver and image transform
+async function renderWholeIssue(browser, pages) {
+  const queue = groupIssuePages(pages, pages.map((_, i) => i));
+  let bytes = 0;
+  let pdfPages = 0;
+  let fallbacks = 0;
+
+  const renderQueue = async () => {
+    const tab = await browser.newPage();
+    await tab.setViewport(VIEWPORT);
+    for (let group = queue.shift(); group; group = queue.shift()) {
+      const html = buildIssueDocument(pages, group);
+      if (!html) {
+        fallbacks += group.length;
+        continue;
+      }
+
+      await tab.setContent(html, { waitUntil: ["domcontentloaded", "load"] });
+      await tab.evaluate((origin) => {
+        document.querySelectorAll("a[href]").forEach((a) => {
+          const href = a.getAttribute("href") || "";
+          if (!href || href.startsWith("#") || /^[a-z][a-z0-9+.-]*:/i.test(href)) return;
+          a.setAttribute("href", `${origin}/${href.replace(/^\/+/, "")}`);
+        });
+      }, ISSUE_LINK_ORIGIN);
+      const pdf = await tab.pdf({
+        width: `${PAGE_WIDTH_PT / 72}in`,
+        height: `${PAGE_HEIGHT_PT / 72}in`,
+        scale: 96 / RENDER_DPI,
+        printBackground: true,
+        margin: { top: 0, right: 0, bottom: 0, left: 0 },
+      });
+
+      const rendered = await splitIssuePdf(pdf, group.length, VIEWPORT.width);
+      if (!rendered) {
+        fallbacks += group.length;
+        continue;
+      }
+      for (const topic of rendered) {
+        bytes += topic.pdf.length;
+        pdfPages += topic.breakPoints.length + 1;
+      }
+    }
+    await tab.close();
+  };
+
+  await Promise.all(Array.from({ length: ISSUE_TABS }, renderQueue));
+  if (fallbacks > 0) console.warn(`whole issue: ${fallbacks} topics could not be rendered as issue documents`);
+  return { bytes, pdfPages };
+}
+
+// Resident size in bytes of a process and all its descendants, null without /proc
+function treeRss(rootPid) {
+  let pids;
+  try {
+    pids = readdirSync("/proc").filter((name) => /^\d+$/.test(name));
+  } catch {
+    return null;
+  }
+
+  const children = new Map();
+  for (const pid of pids) {
+    try {
+      // ppid is the second field after the command name, which may contain spaces
+      const stat = readFileSync(`/proc/${pid}/stat`, "utf-8");
+      const ppid = stat.slice(stat.lastIndexOf(")") + 2).split(" ")[1];
+      if (!children.has(ppid)) children.set(ppid, []);
+      children.get(ppid).push(pid);
+    } catch {
+      // the process exited meanwhile
+    }
+  }
+
+  let rss = 0;
+  const queue = [String(rootPid)];
+  for (let pid = queue.shift(); pid; pid = queue.shift()) {
+    try {
+      const kb = /VmRSS:\s*(\d+)/.exec(readFileSync(`/proc/${pid}/status`, "utf-8"))?.[1];
+      rss += Number(kb ?? 0) * 1024;
+    } catch {
+      // the process exited meanwhile
+    }
+    queue.push(...(children.get(pid) ?? []));
+  }
+  return rss;
+}
+
+async function measure(label, pages, render) {
+  const browser = await puppeteer.launch({ args: ["--no-sandbox", "--disable-setuid-sandbox"], headless: true });
+  const pid = browser.process()?.pid;
+  let peakRss = pid ? treeRss(pid) : null;
+  let peakNodeRss = process.memoryUsage().rss;
+  const sampler = setInterval(() => {
+    const rss = pid ? treeRss(pid) : null;
+    if (rss != null) peakRss = Math.max(peakRss ?? 0, rss);
+    peakNodeRss = Math.max(peakNodeRss, process.memoryUsage().rss);
+  }, MEMORY_SAMPLE_MS);
+
+  try {
+    const start = Date.now();
+    const { bytes, pdfPages } = await render(browser, pages);
+    const seconds = (Date.now() - start) / 1000;
+    const mb = (value) => `${(value / (1024 * 1024)).toFixed(0)} MB`;
+    console.log(
+      `${label.padEnd(14)} ${seconds.toFixed(1).padStart(7)} s  ${(pages.length / seconds).toFixed(1).padStart(6)} topics/s  ` +
+        `${pdfPages} pdf pages  ${(bytes / (1024 * 1024)).toFixed(1)} MB  ` +
+        `peak memory Chrome ${peakRss != null ? mb(peakRss) : "n/a"}, Node ${mb(peakNodeRss)}`
+    );
+  } finally {
+    clearInterval(sampler);
+    await browser.close();
+  }
+}
+
+const count = Number(process.argv[2] ?? 200);
+const pages = await loadPages(count, process.argv[3]);
+console.log(`${pages.length} topic pages, viewport ${VIEWPORT.width} x ${VIEWPORT.height}`);
+
+await measure("page by page", pages, renderPageByPage);
+await measure("whole issue", pages, renderWholeIssue);